@@ -0,0 +1,51 @@
+-- Upgrades a database created before delivery attempts were recorded per try. Run it before `prisma db push`.
+--
+-- Before, every retry wrote its own DeliveryLog row with status 'success' or 'failed'. Now there is one row per
+-- event and subscription, unique on (event_id, subscription_id), with status 'pending', 'retrying', 'succeeded'
+-- or 'exhausted'. This keeps the latest row of each pair, counts the rows it replaces as its attempts, and maps
+-- the old statuses so retries and stats see them. Safe to run more than once.
+
+BEGIN;
+
+-- Columns db push can't add to a non-empty table on its own (updated_at has no default)
+ALTER TABLE "DeliveryLog" ADD COLUMN IF NOT EXISTS "created_at" TIMESTAMP(3);
+ALTER TABLE "DeliveryLog" ADD COLUMN IF NOT EXISTS "updated_at" TIMESTAMP(3);
+ALTER TABLE "DeliveryLog" ADD COLUMN IF NOT EXISTS "completed_at" TIMESTAMP(3);
+
+-- Each legacy row was one try; the row that stays carries the count
+UPDATE "DeliveryLog" AS d
+SET "attempt_count" = pairs.attempts
+FROM (
+  SELECT "event_id", "subscription_id", COUNT(*) AS attempts
+  FROM "DeliveryLog"
+  GROUP BY "event_id", "subscription_id"
+  HAVING COUNT(*) > 1
+) AS pairs
+WHERE d."event_id" = pairs."event_id" AND d."subscription_id" = pairs."subscription_id";
+
+-- The pair's first row is its creation time
+UPDATE "DeliveryLog" AS d
+SET "created_at" = pairs.first_attempted_at
+FROM (
+  SELECT "event_id", "subscription_id", MIN("attempted_at") AS first_attempted_at
+  FROM "DeliveryLog"
+  GROUP BY "event_id", "subscription_id"
+) AS pairs
+WHERE d."event_id" = pairs."event_id" AND d."subscription_id" = pairs."subscription_id" AND d."created_at" IS NULL;
+
+DELETE FROM "DeliveryLog" AS d
+USING "DeliveryLog" AS newer
+WHERE d."event_id" = newer."event_id"
+  AND d."subscription_id" = newer."subscription_id"
+  AND (d."attempted_at", d."id") < (newer."attempted_at", newer."id");
+
+UPDATE "DeliveryLog" SET "status" = 'succeeded', "completed_at" = COALESCE("completed_at", "attempted_at") WHERE "status" = 'success';
+UPDATE "DeliveryLog" SET "status" = 'exhausted', "completed_at" = COALESCE("completed_at", "attempted_at") WHERE "status" = 'failed';
+
+UPDATE "DeliveryLog" SET "updated_at" = "attempted_at" WHERE "updated_at" IS NULL;
+
+ALTER TABLE "DeliveryLog" ALTER COLUMN "created_at" SET DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE "DeliveryLog" ALTER COLUMN "created_at" SET NOT NULL;
+ALTER TABLE "DeliveryLog" ALTER COLUMN "updated_at" SET NOT NULL;
+
+COMMIT;
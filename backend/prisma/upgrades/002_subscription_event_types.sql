@@ -0,0 +1,25 @@
+-- Upgrades a database created before subscriptions took several event types. Run it before `prisma db push`.
+--
+-- Subscription.event_type (one type) became event_types (a list of types or patterns). db push would drop the old
+-- column and leave every subscription with no event types, so none of them would match an event again. This carries
+-- each subscription's type over before dropping the column. Safe to run more than once.
+
+BEGIN;
+
+ALTER TABLE "Subscription" ADD COLUMN IF NOT EXISTS "event_types" TEXT[];
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'Subscription' AND column_name = 'event_type'
+  ) THEN
+    UPDATE "Subscription"
+    SET "event_types" = ARRAY["event_type"]
+    WHERE "event_types" IS NULL OR cardinality("event_types") = 0;
+
+    ALTER TABLE "Subscription" DROP COLUMN "event_type";
+  END IF;
+END $$;
+
+COMMIT;
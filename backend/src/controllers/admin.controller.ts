@@ -1,8 +1,28 @@
 // Admin controller for webhook management operations
 import { Request, Response } from 'express';
+import { Prisma, Subscription } from '@prisma/client';
 import { prisma } from '../config/prisma';
 import { WebhookService } from '../services/webhook.service';
-import { SecurityUtils } from '../utils/security';
+import { OutboxService } from '../services/outbox.service';
+import { SigningKeyService } from '../services/signing-key.service';
+import { EndpointVerificationService, REQUIRE_ENDPOINT_VERIFICATION } from '../services/endpoint-verification.service';
+import { CircuitBreakerService } from '../services/circuit-breaker.service';
+import { DeadLetterService } from '../services/dead-letter.service';
+import { SubscriptionPauseService } from '../services/subscription-pause.service';
+import { MAX_IN_FLIGHT_LIMIT, MAX_RATE_LIMIT_PER_SECOND } from '../services/delivery-throttle.service';
+import { MAX_BATCH_SIZE, MAX_BATCH_WAIT_MS, MIN_BATCH_WAIT_MS } from '../services/delivery-batch.service';
+import { SecurityUtils, SIGNATURE_SCHEMES } from '../utils/security';
+import { EventPatternUtils } from '../utils/event-pattern';
+import { OutboundAuthUtils, OutboundAuthParams } from '../utils/outbound-auth';
+import { DestinationPolicy, DestinationBlockedError } from '../utils/destination-policy';
+import { ClientCertificateUtils, CERT_EXPIRY_WARNING_DAYS } from '../utils/client-certificate';
+import { RetryPolicyUtils } from '../utils/retry-policy';
+import { PayloadFilterUtils, FilterExpression } from '../utils/payload-filter';
+import { PayloadTransformUtils, TransformError, TRANSFORM_ERROR_MODES } from '../utils/payload-transform';
+
+// Ordered delivery sends one request at a time per key, which a batch mixing keys can't honour
+const BATCHING_WITH_ORDERING_ERROR = 'batchMaxSize cannot be combined with orderedDelivery';
+const UNSIGNED_WITHOUT_AUTH_ERROR = 'signatureScheme none requires outbound auth';
 
 export class AdminController {
   // Get all webhook subscriptions
@@ -12,7 +32,8 @@ export class AdminController {
       const skip = (Number(page) - 1) * Number(limit);
 
       const where: any = {};
-      if (eventType) where.event_type = eventType;
+      // eventType lists the subscriptions that would receive that type
+      if (eventType) where.event_types = { hasSome: EventPatternUtils.getMatchingPatterns(String(eventType)) };
       if (isActive !== undefined) where.is_active = isActive === 'true';
 
       const [subscriptions, total] = await Promise.all([
@@ -30,12 +51,38 @@ export class AdminController {
         prisma.subscription.count({ where })
       ]);
 
+      const heldCounts = await CircuitBreakerService.getHeldCounts(subscriptions.map(sub => sub.id));
+
       return res.status(200).json({
         success: true,
         subscriptions: subscriptions.map(sub => ({
           id: sub.id,
-          eventType: sub.event_type,
+          eventTypes: sub.event_types,
           targetUrl: sub.target_url,
+          filter: sub.filter,
+          secretRotatedAt: sub.secret_rotated_at,
+          previousSecretExpiresAt: sub.previous_secret_expires_at,
+          transform: sub.transform,
+          transformOnError: sub.transform_on_error,
+          signatureScheme: sub.signature_scheme,
+          authType: sub.auth_type,
+          authParams: sub.auth_params,
+          clientCertificate: AdminController.describeClientCertificate(sub),
+          verificationStatus: sub.verification_status,
+          verifiedAt: sub.verified_at,
+          verificationError: sub.verification_error,
+          retryPolicy: sub.retry_policy,
+          timeoutMs: sub.timeout_ms,
+          rateLimitPerSecond: sub.rate_limit_per_second,
+          maxInFlight: sub.max_in_flight,
+          orderedDelivery: sub.ordered_delivery,
+          orderingKey: sub.ordering_key,
+          batchMaxSize: sub.batch_max_size,
+          batchMaxWaitMs: sub.batch_max_wait_ms,
+          deactivatedAt: sub.deactivated_at,
+          deactivationReason: sub.deactivation_reason,
+          circuitBreaker: AdminController.describeCircuitBreaker(sub, heldCounts.get(sub.id) ?? 0),
+          pausedAt: sub.paused_at,
           isActive: sub.is_active,
           createdAt: sub.created_at,
           updatedAt: sub.updated_at,
@@ -61,17 +108,29 @@ export class AdminController {
   // Create new webhook subscription
   static async createSubscription(req: Request, res: Response): Promise<Response> {
     try {
-      const { eventType, targetUrl, description } = req.body;
+      const {
+        targetUrl, description, filter, transform, transformOnError, signatureScheme, auth, clientCertificate, retryPolicy, timeoutMs,
+        rateLimitPerSecond, maxInFlight, orderedDelivery, orderingKey, batchMaxSize, batchMaxWaitMs
+      } = req.body;
 
       // Validate input
-      if (!eventType || !targetUrl) {
+      if ((req.body.eventTypes === undefined && req.body.eventType === undefined) || !targetUrl) {
         return res.status(400).json({
           success: false,
-          error: 'eventType and targetUrl are required',
+          error: 'eventTypes and targetUrl are required',
           code: 'VALIDATION_ERROR'
         });
       }
 
+      const { eventTypes, error: eventTypesError } = AdminController.parseEventTypes(req.body);
+      if (eventTypesError || !eventTypes) {
+        return res.status(400).json({
+          success: false,
+          error: eventTypesError,
+          code: 'INVALID_EVENT_TYPE'
+        });
+      }
+
       if (!SecurityUtils.isValidWebhookUrl(targetUrl)) {
         return res.status(400).json({
           success: false,
@@ -80,10 +139,127 @@ export class AdminController {
         });
       }
 
+      const filterErrors = filter != null ? PayloadFilterUtils.validate(filter) : [];
+      if (filterErrors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid subscription filter',
+          code: 'INVALID_FILTER',
+          details: filterErrors
+        });
+      }
+
+      const transformErrors = AdminController.validateTransform(transform, transformOnError);
+      if (transformErrors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid subscription transform',
+          code: 'INVALID_TRANSFORM',
+          details: transformErrors
+        });
+      }
+
+      if (signatureScheme !== undefined && !SIGNATURE_SCHEMES.includes(signatureScheme)) {
+        return res.status(400).json({
+          success: false,
+          error: `signatureScheme must be one of ${SIGNATURE_SCHEMES.join(', ')}`,
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      if (signatureScheme === 'ed25519' && !(await AdminController.isSigningKeyAvailable())) {
+        return res.status(503).json({
+          success: false,
+          error: 'Ed25519 signing is unavailable; check SECRETS_ENCRYPTION_KEY',
+          code: 'SIGNING_KEY_UNAVAILABLE'
+        });
+      }
+
+      // Unsigned deliveries need outbound auth, so leaving auth out is checked as if it were none
+      const { data: authData, errors: authErrors } = auth !== undefined || signatureScheme === 'none'
+        ? AdminController.buildAuthData(auth ?? null, signatureScheme)
+        : { data: undefined, errors: [] };
+      if (authErrors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid outbound auth settings',
+          code: 'INVALID_AUTH',
+          details: authErrors
+        });
+      }
+
+      const { data: certificateData, errors: certificateErrors } = clientCertificate !== undefined
+        ? AdminController.buildClientCertificateData(clientCertificate)
+        : { data: undefined, errors: [] };
+      if (certificateErrors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid client certificate',
+          code: 'INVALID_CLIENT_CERTIFICATE',
+          details: certificateErrors
+        });
+      }
+
+      const { data: deliveryData, errors: deliveryErrors } = AdminController.buildDeliverySettingsData(retryPolicy, timeoutMs);
+      if (deliveryErrors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid retry policy',
+          code: 'INVALID_RETRY_POLICY',
+          details: deliveryErrors
+        });
+      }
+
+      const { data: throttleData, errors: throttleErrors } = AdminController.buildThrottleData(rateLimitPerSecond, maxInFlight);
+      if (throttleErrors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid rate limits',
+          code: 'INVALID_RATE_LIMIT',
+          details: throttleErrors
+        });
+      }
+
+      const { data: orderingData, errors: orderingErrors } = AdminController.buildOrderingData(orderedDelivery, orderingKey);
+      if (orderingErrors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid ordering settings',
+          code: 'INVALID_ORDERING',
+          details: orderingErrors
+        });
+      }
+
+      const { data: batchingData, errors: batchingErrors } = AdminController.buildBatchingData(batchMaxSize, batchMaxWaitMs);
+      if (batchingData.batch_max_size && orderingData.ordered_delivery) {
+        batchingErrors.push(BATCHING_WITH_ORDERING_ERROR);
+      }
+      if (batchingErrors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid batching settings',
+          code: 'INVALID_BATCHING',
+          details: batchingErrors
+        });
+      }
+
+      // Refuse destinations that resolve to internal addresses; the worker checks again at delivery time
+      const blockedReason = await AdminController.checkDestinations([
+        targetUrl,
+        (authData?.auth_params as OutboundAuthParams | undefined)?.tokenUrl
+      ]);
+      if (blockedReason) {
+        return res.status(400).json({
+          success: false,
+          error: `Webhook destination not allowed: ${blockedReason}`,
+          code: 'DESTINATION_BLOCKED'
+        });
+      }
+
       // Check for duplicate subscription
       const existingSubscription = await prisma.subscription.findFirst({
         where: {
-          event_type: eventType,
+          event_types: { hasSome: eventTypes },
           target_url: targetUrl,
           is_active: true
         }
@@ -92,7 +268,7 @@ export class AdminController {
       if (existingSubscription) {
         return res.status(409).json({
           success: false,
-          error: 'Active subscription already exists for this event type and URL',
+          error: 'Active subscription already exists for one of these event types and URL',
           code: 'DUPLICATE_SUBSCRIPTION'
         });
       }
@@ -101,29 +277,71 @@ export class AdminController {
       const secretKey = SecurityUtils.generateSecretKey();
 
       // Create subscription
-      const subscription = await prisma.subscription.create({
+      let subscription = await prisma.subscription.create({
         data: {
-          event_type: eventType,
+          event_types: eventTypes,
           target_url: targetUrl,
+          filter: filter ?? Prisma.DbNull,
+          transform: transform ?? Prisma.DbNull,
+          ...(transformOnError !== undefined && { transform_on_error: transformOnError }),
+          ...(signatureScheme !== undefined && { signature_scheme: signatureScheme }),
+          ...authData,
+          ...certificateData,
+          ...deliveryData,
+          ...throttleData,
+          ...orderingData,
+          ...batchingData,
           secret_key: secretKey,
+          verification_status: REQUIRE_ENDPOINT_VERIFICATION ? 'pending_verification' : 'verified',
+          verified_at: REQUIRE_ENDPOINT_VERIFICATION ? null : new Date(),
           is_active: true,
           created_at: new Date(),
           updated_at: new Date()
         }
       });
 
-      console.log(`✅ Created subscription: ${subscription.id} for event type: ${eventType}`);
+      console.log(`✅ Created subscription: ${subscription.id} for event types: ${eventTypes.join(', ')}`);
+
+      // Events are only delivered once the endpoint echoes the challenge
+      if (REQUIRE_ENDPOINT_VERIFICATION) {
+        subscription = await EndpointVerificationService.sendChallenge(subscription);
+      }
 
       return res.status(201).json({
         success: true,
         message: 'Subscription created successfully',
         subscription: {
           id: subscription.id,
-          eventType: subscription.event_type,
+          eventTypes: subscription.event_types,
           targetUrl: subscription.target_url,
+          filter: subscription.filter,
+          transform: subscription.transform,
+          transformOnError: subscription.transform_on_error,
+          signatureScheme: subscription.signature_scheme,
+          authType: subscription.auth_type,
+          authParams: subscription.auth_params,
+          clientCertificate: AdminController.describeClientCertificate(subscription),
+          verificationStatus: subscription.verification_status,
+          verifiedAt: subscription.verified_at,
+          verificationError: subscription.verification_error,
+          retryPolicy: subscription.retry_policy,
+          timeoutMs: subscription.timeout_ms,
+          rateLimitPerSecond: subscription.rate_limit_per_second,
+          maxInFlight: subscription.max_in_flight,
+          orderedDelivery: subscription.ordered_delivery,
+          orderingKey: subscription.ordering_key,
+          batchMaxSize: subscription.batch_max_size,
+          batchMaxWaitMs: subscription.batch_max_wait_ms,
+          deactivatedAt: subscription.deactivated_at,
+          deactivationReason: subscription.deactivation_reason,
+          circuitBreaker: AdminController.describeCircuitBreaker(subscription),
+          pausedAt: subscription.paused_at,
           isActive: subscription.is_active,
           createdAt: subscription.created_at,
-          secretKey: subscription.secret_key // Include secret key for client to store
+          secretKey: subscription.secret_key, // Include secret key for client to store
+          ...(subscription.signature_scheme === 'standard_webhooks' && {
+            standardWebhooksSecret: SecurityUtils.toStandardWebhooksSecret(subscription.secret_key)
+          })
         }
       });
     } catch (error) {
@@ -140,7 +358,10 @@ export class AdminController {
   static async updateSubscription(req: Request, res: Response): Promise<Response> {
     try {
       const { subscriptionId } = req.params;
-      const { eventType, targetUrl, isActive } = req.body;
+      const {
+        targetUrl, isActive, filter, transform, transformOnError, signatureScheme, auth, clientCertificate, retryPolicy, timeoutMs,
+        rateLimitPerSecond, maxInFlight, orderedDelivery, orderingKey, batchMaxSize, batchMaxWaitMs
+      } = req.body;
 
       if (!subscriptionId) {
         return res.status(400).json({
@@ -150,8 +371,33 @@ export class AdminController {
         });
       }
 
+      const current = await prisma.subscription.findUnique({
+        where: { id: subscriptionId },
+        select: {
+          target_url: true, auth_type: true, auth_secret: true, signature_scheme: true, circuit_state: true, ordered_delivery: true, batch_max_size: true
+        }
+      });
+
+      if (!current) {
+        return res.status(404).json({
+          success: false,
+          error: 'Subscription not found',
+          code: 'SUBSCRIPTION_NOT_FOUND'
+        });
+      }
+
       const updateData: any = { updated_at: new Date() };
-      if (eventType !== undefined) updateData.event_type = eventType;
+      if (req.body.eventTypes !== undefined || req.body.eventType !== undefined) {
+        const { eventTypes, error: eventTypesError } = AdminController.parseEventTypes(req.body);
+        if (eventTypesError) {
+          return res.status(400).json({
+            success: false,
+            error: eventTypesError,
+            code: 'INVALID_EVENT_TYPE'
+          });
+        }
+        updateData.event_types = eventTypes;
+      }
       if (targetUrl !== undefined) {
         if (!SecurityUtils.isValidWebhookUrl(targetUrl)) {
           return res.status(400).json({
@@ -162,13 +408,188 @@ export class AdminController {
         }
         updateData.target_url = targetUrl;
       }
-      if (isActive !== undefined) updateData.is_active = isActive;
+      if (isActive !== undefined) {
+        updateData.is_active = isActive;
+        // Reactivating clears why the relay switched the subscription off
+        if (isActive) {
+          updateData.deactivated_at = null;
+          updateData.deactivation_reason = null;
+        }
+      }
+      if (filter !== undefined) {
+        const filterErrors = filter !== null ? PayloadFilterUtils.validate(filter) : [];
+        if (filterErrors.length > 0) {
+          return res.status(400).json({
+            success: false,
+            error: 'Invalid subscription filter',
+            code: 'INVALID_FILTER',
+            details: filterErrors
+          });
+        }
+        // null clears the filter
+        updateData.filter = filter ?? Prisma.DbNull;
+      }
+      if (transform !== undefined || transformOnError !== undefined) {
+        const transformErrors = AdminController.validateTransform(transform, transformOnError);
+        if (transformErrors.length > 0) {
+          return res.status(400).json({
+            success: false,
+            error: 'Invalid subscription transform',
+            code: 'INVALID_TRANSFORM',
+            details: transformErrors
+          });
+        }
+        // null removes the transform
+        if (transform !== undefined) updateData.transform = transform ?? Prisma.DbNull;
+        if (transformOnError !== undefined) updateData.transform_on_error = transformOnError;
+      }
+      if (signatureScheme !== undefined) {
+        if (!SIGNATURE_SCHEMES.includes(signatureScheme)) {
+          return res.status(400).json({
+            success: false,
+            error: `signatureScheme must be one of ${SIGNATURE_SCHEMES.join(', ')}`,
+            code: 'VALIDATION_ERROR'
+          });
+        }
+        updateData.signature_scheme = signatureScheme;
+      }
+
+      if (signatureScheme === 'ed25519' && !(await AdminController.isSigningKeyAvailable())) {
+        return res.status(503).json({
+          success: false,
+          error: 'Ed25519 signing is unavailable; check SECRETS_ENCRYPTION_KEY',
+          code: 'SIGNING_KEY_UNAVAILABLE'
+        });
+      }
+
+      if (auth !== undefined) {
+        // A secret left out of the request keeps the stored one when the auth type doesn't change
+        const { data: authData, errors: authErrors } = AdminController.buildAuthData(
+          auth,
+          signatureScheme ?? current.signature_scheme,
+          { type: current.auth_type, hasSecret: !!current.auth_secret }
+        );
+        if (authErrors.length > 0) {
+          return res.status(400).json({
+            success: false,
+            error: 'Invalid outbound auth settings',
+            code: 'INVALID_AUTH',
+            details: authErrors
+          });
+        }
+        Object.assign(updateData, authData);
+      } else if (signatureScheme === 'none' && current.auth_type === 'none') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid outbound auth settings',
+          code: 'INVALID_AUTH',
+          details: [UNSIGNED_WITHOUT_AUTH_ERROR]
+        });
+      }
+      if (clientCertificate !== undefined) {
+        const { data: certificateData, errors: certificateErrors } = AdminController.buildClientCertificateData(clientCertificate);
+        if (certificateErrors.length > 0) {
+          return res.status(400).json({
+            success: false,
+            error: 'Invalid client certificate',
+            code: 'INVALID_CLIENT_CERTIFICATE',
+            details: certificateErrors
+          });
+        }
+        Object.assign(updateData, certificateData);
+      }
+      if (retryPolicy !== undefined || timeoutMs !== undefined) {
+        const { data: deliveryData, errors: deliveryErrors } = AdminController.buildDeliverySettingsData(retryPolicy, timeoutMs);
+        if (deliveryErrors.length > 0) {
+          return res.status(400).json({
+            success: false,
+            error: 'Invalid retry policy',
+            code: 'INVALID_RETRY_POLICY',
+            details: deliveryErrors
+          });
+        }
+        Object.assign(updateData, deliveryData);
+      }
+      if (rateLimitPerSecond !== undefined || maxInFlight !== undefined) {
+        const { data: throttleData, errors: throttleErrors } = AdminController.buildThrottleData(rateLimitPerSecond, maxInFlight);
+        if (throttleErrors.length > 0) {
+          return res.status(400).json({
+            success: false,
+            error: 'Invalid rate limits',
+            code: 'INVALID_RATE_LIMIT',
+            details: throttleErrors
+          });
+        }
+        Object.assign(updateData, throttleData);
+      }
+      if (orderedDelivery !== undefined || orderingKey !== undefined) {
+        const { data: orderingData, errors: orderingErrors } = AdminController.buildOrderingData(orderedDelivery, orderingKey);
+        if (orderingErrors.length > 0) {
+          return res.status(400).json({
+            success: false,
+            error: 'Invalid ordering settings',
+            code: 'INVALID_ORDERING',
+            details: orderingErrors
+          });
+        }
+        Object.assign(updateData, orderingData);
+      }
+      if (batchMaxSize !== undefined || batchMaxWaitMs !== undefined) {
+        const { data: batchingData, errors: batchingErrors } = AdminController.buildBatchingData(batchMaxSize, batchMaxWaitMs);
+        if (batchingErrors.length > 0) {
+          return res.status(400).json({
+            success: false,
+            error: 'Invalid batching settings',
+            code: 'INVALID_BATCHING',
+            details: batchingErrors
+          });
+        }
+        Object.assign(updateData, batchingData);
+      }
+      const batched = updateData.batch_max_size !== undefined ? updateData.batch_max_size : current.batch_max_size;
+      if (batched && (updateData.ordered_delivery ?? current.ordered_delivery)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid batching settings',
+          code: 'INVALID_BATCHING',
+          details: [BATCHING_WITH_ORDERING_ERROR]
+        });
+      }
+
+      const blockedReason = await AdminController.checkDestinations([
+        targetUrl,
+        (updateData.auth_params as OutboundAuthParams | undefined)?.tokenUrl
+      ]);
+      if (blockedReason) {
+        return res.status(400).json({
+          success: false,
+          error: `Webhook destination not allowed: ${blockedReason}`,
+          code: 'DESTINATION_BLOCKED'
+        });
+      }
+
+      // A new target has to prove ownership again before it receives events
+      const targetChanged = targetUrl !== undefined && targetUrl !== current.target_url;
+      if (targetChanged && REQUIRE_ENDPOINT_VERIFICATION) {
+        updateData.verification_status = 'pending_verification';
+        updateData.verified_at = null;
+      }
 
-      const subscription = await prisma.subscription.update({
+      let subscription = await prisma.subscription.update({
         where: { id: subscriptionId },
         data: updateData
       });
 
+      if (targetChanged && REQUIRE_ENDPOINT_VERIFICATION) {
+        subscription = await EndpointVerificationService.sendChallenge(subscription);
+      }
+
+      // Reactivating a subscription the breaker disabled starts it closed and releases what it held
+      if (isActive === true && current.circuit_state !== 'closed') {
+        await CircuitBreakerService.reset(subscription.id);
+        subscription = await prisma.subscription.findUniqueOrThrow({ where: { id: subscription.id } });
+      }
+
       console.log(`✅ Updated subscription: ${subscription.id}`);
 
       return res.status(200).json({
@@ -176,8 +597,30 @@ export class AdminController {
         message: 'Subscription updated successfully',
         subscription: {
           id: subscription.id,
-          eventType: subscription.event_type,
+          eventTypes: subscription.event_types,
           targetUrl: subscription.target_url,
+          filter: subscription.filter,
+          transform: subscription.transform,
+          transformOnError: subscription.transform_on_error,
+          signatureScheme: subscription.signature_scheme,
+          authType: subscription.auth_type,
+          authParams: subscription.auth_params,
+          clientCertificate: AdminController.describeClientCertificate(subscription),
+          verificationStatus: subscription.verification_status,
+          verifiedAt: subscription.verified_at,
+          verificationError: subscription.verification_error,
+          retryPolicy: subscription.retry_policy,
+          timeoutMs: subscription.timeout_ms,
+          rateLimitPerSecond: subscription.rate_limit_per_second,
+          maxInFlight: subscription.max_in_flight,
+          orderedDelivery: subscription.ordered_delivery,
+          orderingKey: subscription.ordering_key,
+          batchMaxSize: subscription.batch_max_size,
+          batchMaxWaitMs: subscription.batch_max_wait_ms,
+          deactivatedAt: subscription.deactivated_at,
+          deactivationReason: subscription.deactivation_reason,
+          circuitBreaker: AdminController.describeCircuitBreaker(subscription),
+          pausedAt: subscription.paused_at,
           isActive: subscription.is_active,
           createdAt: subscription.created_at,
           updatedAt: subscription.updated_at
@@ -200,6 +643,335 @@ export class AdminController {
     }
   }
 
+  // Test a filter against a sample payload or a stored event without saving it
+  static async previewFilter(req: Request, res: Response): Promise<Response> {
+    try {
+      const { filter, eventId } = req.body;
+      let { payload } = req.body;
+
+      const filterErrors = PayloadFilterUtils.validate(filter);
+      if (filterErrors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid subscription filter',
+          code: 'INVALID_FILTER',
+          details: filterErrors
+        });
+      }
+
+      if (eventId) {
+        const event = await prisma.event.findUnique({
+          where: { id: eventId },
+          select: { payload: true }
+        });
+
+        if (!event) {
+          return res.status(404).json({
+            success: false,
+            error: 'Event not found',
+            code: 'EVENT_NOT_FOUND'
+          });
+        }
+        payload = event.payload;
+      } else if (payload === undefined) {
+        return res.status(400).json({
+          success: false,
+          error: 'Provide a sample payload or an eventId',
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        matches: PayloadFilterUtils.evaluate(filter as FilterExpression, payload)
+      });
+    } catch (error) {
+      console.error('Error previewing filter:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to preview filter',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Render a transform against a stored event; uses the saved transform when none is given
+  static async previewTransform(req: Request, res: Response): Promise<Response> {
+    try {
+      const { eventId, subscriptionId } = req.body;
+      let { transform } = req.body;
+
+      if (!eventId) {
+        return res.status(400).json({
+          success: false,
+          error: 'eventId is required',
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      if (transform === undefined && subscriptionId) {
+        const subscription = await prisma.subscription.findUnique({
+          where: { id: subscriptionId },
+          select: { transform: true }
+        });
+
+        if (!subscription) {
+          return res.status(404).json({
+            success: false,
+            error: 'Subscription not found',
+            code: 'SUBSCRIPTION_NOT_FOUND'
+          });
+        }
+        transform = subscription.transform;
+      }
+
+      const transformErrors = transform != null ? PayloadTransformUtils.validate(transform) : [];
+      if (transformErrors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid subscription transform',
+          code: 'INVALID_TRANSFORM',
+          details: transformErrors
+        });
+      }
+
+      const event = await prisma.event.findUnique({ where: { id: eventId } });
+
+      if (!event) {
+        return res.status(404).json({
+          success: false,
+          error: 'Event not found',
+          code: 'EVENT_NOT_FOUND'
+        });
+      }
+
+      const envelope = PayloadTransformUtils.buildEnvelope(event);
+
+      try {
+        return res.status(200).json({
+          success: true,
+          body: transform != null ? PayloadTransformUtils.render(transform, envelope) : envelope
+        });
+      } catch (error) {
+        if (!(error instanceof TransformError)) {
+          throw error;
+        }
+        return res.status(422).json({
+          success: false,
+          error: error.message,
+          code: 'TRANSFORM_ERROR'
+        });
+      }
+    } catch (error) {
+      console.error('Error previewing transform:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to preview transform',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Close a subscription's circuit breaker and release the deliveries it held
+  static async resetCircuitBreaker(req: Request, res: Response): Promise<Response> {
+    try {
+      const { subscriptionId } = req.params;
+
+      const existing = await prisma.subscription.findUnique({
+        where: { id: subscriptionId },
+        select: { id: true, is_active: true }
+      });
+
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          error: 'Subscription not found',
+          code: 'SUBSCRIPTION_NOT_FOUND'
+        });
+      }
+
+      if (!existing.is_active) {
+        return res.status(400).json({
+          success: false,
+          error: 'Reactivate the subscription to reset its circuit breaker',
+          code: 'INACTIVE_SUBSCRIPTION'
+        });
+      }
+
+      const released = await CircuitBreakerService.reset(subscriptionId);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Circuit breaker reset',
+        subscriptionId,
+        releasedDeliveries: released
+      });
+    } catch (error) {
+      console.error('Error resetting circuit breaker:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to reset circuit breaker',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Pause a subscription: events keep matching and their deliveries are held until it's resumed
+  static async pauseSubscription(req: Request, res: Response): Promise<Response> {
+    try {
+      const { subscriptionId } = req.params;
+
+      const existing = await prisma.subscription.findUnique({
+        where: { id: subscriptionId },
+        select: { id: true, is_active: true, paused_at: true }
+      });
+
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          error: 'Subscription not found',
+          code: 'SUBSCRIPTION_NOT_FOUND'
+        });
+      }
+
+      if (!existing.is_active) {
+        return res.status(400).json({
+          success: false,
+          error: 'Cannot pause an inactive subscription',
+          code: 'INACTIVE_SUBSCRIPTION'
+        });
+      }
+
+      if (existing.paused_at) {
+        return res.status(400).json({
+          success: false,
+          error: 'Subscription is already paused',
+          code: 'ALREADY_PAUSED'
+        });
+      }
+
+      await SubscriptionPauseService.pause(subscriptionId);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Subscription paused',
+        subscriptionId
+      });
+    } catch (error) {
+      console.error('Error pausing subscription:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to pause subscription',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Resume a paused subscription and release its held deliveries in order; releaseSince caps how far back to release
+  static async resumeSubscription(req: Request, res: Response): Promise<Response> {
+    try {
+      const { subscriptionId } = req.params;
+      const { releaseSince } = req.body ?? {};
+
+      let since: Date | undefined;
+      if (releaseSince !== undefined && releaseSince !== null) {
+        since = new Date(releaseSince);
+        if (typeof releaseSince !== 'string' || Number.isNaN(since.getTime())) {
+          return res.status(400).json({
+            success: false,
+            error: 'releaseSince must be an ISO 8601 timestamp',
+            code: 'INVALID_RELEASE_SINCE'
+          });
+        }
+      }
+
+      const existing = await prisma.subscription.findUnique({
+        where: { id: subscriptionId },
+        select: { id: true, is_active: true, paused_at: true }
+      });
+
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          error: 'Subscription not found',
+          code: 'SUBSCRIPTION_NOT_FOUND'
+        });
+      }
+
+      if (!existing.paused_at) {
+        return res.status(400).json({
+          success: false,
+          error: 'Subscription is not paused',
+          code: 'NOT_PAUSED'
+        });
+      }
+
+      if (!existing.is_active) {
+        return res.status(400).json({
+          success: false,
+          error: 'Reactivate the subscription to resume it',
+          code: 'INACTIVE_SUBSCRIPTION'
+        });
+      }
+
+      const { released, skipped } = await SubscriptionPauseService.resume(subscriptionId, since);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Subscription resumed',
+        subscriptionId,
+        releasedDeliveries: released,
+        skippedDeliveries: skipped
+      });
+    } catch (error) {
+      console.error('Error resuming subscription:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to resume subscription',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Resend the endpoint verification challenge
+  static async resendVerification(req: Request, res: Response): Promise<Response> {
+    try {
+      const { subscriptionId } = req.params;
+
+      const existing = await prisma.subscription.findUnique({ where: { id: subscriptionId } });
+
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          error: 'Subscription not found',
+          code: 'SUBSCRIPTION_NOT_FOUND'
+        });
+      }
+
+      const subscription = await EndpointVerificationService.sendChallenge(existing);
+
+      return res.status(200).json({
+        success: true,
+        message: subscription.verification_status === 'verified'
+          ? 'Endpoint verified successfully'
+          : 'Endpoint did not echo the challenge',
+        subscription: {
+          id: subscription.id,
+          verificationStatus: subscription.verification_status,
+          verifiedAt: subscription.verified_at,
+          verificationError: subscription.verification_error
+        }
+      });
+    } catch (error) {
+      console.error('Error resending verification challenge:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to send verification challenge',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
   // Delete subscription
   static async deleteSubscription(req: Request, res: Response): Promise<Response> {
     try {
@@ -288,7 +1060,7 @@ export class AdminController {
             subscription: {
               select: {
                 id: true,
-                event_type: true,
+                event_types: true,
                 target_url: true,
                 is_active: true
               }
@@ -305,9 +1077,16 @@ export class AdminController {
           status: log.status,
           attemptCount: log.attempt_count,
           attemptedAt: log.attempted_at,
+          nextRetryAt: log.next_retry_at,
+          completedAt: log.completed_at,
+          createdAt: log.created_at,
           responseStatusCode: log.response_status_code,
           responseBody: log.response_body,
           errorMessage: log.error_message,
+          classification: log.classification,
+          orderingKey: log.ordering_key,
+          sequence: log.sequence,
+          batchId: log.batch_id,
           event: log.event,
           subscription: log.subscription
         })),
@@ -328,6 +1107,87 @@ export class AdminController {
     }
   }
 
+  // Get a single delivery with its full attempt history
+  static async getDeliveryLog(req: Request, res: Response): Promise<Response> {
+    try {
+      const { logId } = req.params;
+
+      const log = await prisma.deliveryLog.findUnique({
+        where: { id: logId },
+        include: {
+          event: {
+            select: {
+              id: true,
+              event_type: true,
+              received_at: true
+            }
+          },
+          subscription: {
+            select: {
+              id: true,
+              event_types: true,
+              target_url: true,
+              is_active: true
+            }
+          },
+          attempts: {
+            orderBy: { attempt_number: 'asc' }
+          }
+        }
+      });
+
+      if (!log) {
+        return res.status(404).json({
+          success: false,
+          error: 'Delivery log not found',
+          code: 'LOG_NOT_FOUND'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        log: {
+          id: log.id,
+          status: log.status,
+          attemptCount: log.attempt_count,
+          attemptedAt: log.attempted_at,
+          nextRetryAt: log.next_retry_at,
+          completedAt: log.completed_at,
+          createdAt: log.created_at,
+          responseStatusCode: log.response_status_code,
+          responseBody: log.response_body,
+          errorMessage: log.error_message,
+          classification: log.classification,
+          orderingKey: log.ordering_key,
+          sequence: log.sequence,
+          batchId: log.batch_id,
+          event: log.event,
+          subscription: log.subscription,
+          attempts: log.attempts.map(attempt => ({
+            id: attempt.id,
+            attemptNumber: attempt.attempt_number,
+            status: attempt.status,
+            startedAt: attempt.started_at,
+            durationMs: attempt.duration_ms,
+            responseStatusCode: attempt.response_status_code,
+            responseHeaders: attempt.response_headers,
+            responseBody: attempt.response_body,
+            errorMessage: attempt.error_message,
+            classification: attempt.classification,
+            nextRetryAt: attempt.next_retry_at
+          }))
+        }
+      });
+    } catch (error) {
+      console.error('Error fetching delivery log:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch delivery log',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
   // Retry failed delivery
   static async retryFailedDelivery(req: Request, res: Response): Promise<Response> {
     try {
@@ -346,7 +1206,8 @@ export class AdminController {
         where: { id: logId },
         include: {
           event: true,
-          subscription: true
+          subscription: true,
+          dead_letter: { select: { id: true, dead_lettered_at: true } }
         }
       });
 
@@ -358,10 +1219,12 @@ export class AdminController {
         });
       }
 
-      if (deliveryLog.status === 'success') {
+      if (deliveryLog.status !== 'exhausted') {
         return res.status(400).json({
           success: false,
-          error: 'Cannot retry successful delivery',
+          error: deliveryLog.status === 'succeeded'
+            ? 'Cannot retry successful delivery'
+            : 'Delivery is still in progress',
           code: 'INVALID_RETRY'
         });
       }
@@ -374,8 +1237,8 @@ export class AdminController {
         });
       }
 
-      // Queue the retry job
-      await WebhookService.queueWebhookDelivery(deliveryLog.event_id, deliveryLog.subscription_id);
+      // Queue the retry and reopen the delivery; the new attempts continue its attempt numbering
+      await DeadLetterService.requeueDelivery(deliveryLog, deliveryLog.dead_letter);
 
       console.log(`🔄 Queued retry for delivery log: ${logId}`);
 
@@ -406,15 +1269,34 @@ export class AdminController {
         totalDeliveries,
         successfulDeliveries,
         failedDeliveries,
-        pendingDeliveries
+        pendingDeliveries,
+        retryingDeliveries,
+        heldDeliveries,
+        deadLetters,
+        outboxPending,
+        expiringCertificates,
+        openCircuitBreakers,
+        pausedSubscriptions
       ] = await Promise.all([
         prisma.event.count(),
         prisma.subscription.count(),
         prisma.subscription.count({ where: { is_active: true } }),
         prisma.deliveryLog.count(),
-        prisma.deliveryLog.count({ where: { status: 'success' } }),
-        prisma.deliveryLog.count({ where: { status: 'failed' } }),
-        prisma.deliveryLog.count({ where: { status: 'pending' } })
+        prisma.deliveryLog.count({ where: { status: 'succeeded' } }),
+        prisma.deliveryLog.count({ where: { status: 'exhausted' } }),
+        prisma.deliveryLog.count({ where: { status: 'pending' } }),
+        prisma.deliveryLog.count({ where: { status: 'retrying' } }),
+        prisma.deliveryLog.count({ where: { status: 'held' } }),
+        prisma.deadLetter.count(),
+        OutboxService.getPendingCount(),
+        prisma.subscription.count({
+          where: {
+            is_active: true,
+            tls_cert_expires_at: { lt: new Date(Date.now() + CERT_EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000) }
+          }
+        }),
+        prisma.subscription.count({ where: { is_active: true, circuit_state: { not: 'closed' } } }),
+        prisma.subscription.count({ where: { is_active: true, paused_at: { not: null } } })
       ]);
 
       const successRate = totalDeliveries > 0 ? (successfulDeliveries / totalDeliveries) * 100 : 0;
@@ -428,15 +1310,29 @@ export class AdminController {
           subscriptions: {
             total: totalSubscriptions,
             active: activeSubscriptions,
-            inactive: totalSubscriptions - activeSubscriptions
+            inactive: totalSubscriptions - activeSubscriptions,
+            openCircuitBreakers,
+            paused: pausedSubscriptions
           },
           deliveries: {
             total: totalDeliveries,
             successful: successfulDeliveries,
             failed: failedDeliveries,
             pending: pendingDeliveries,
+            retrying: retryingDeliveries,
+            held: heldDeliveries,
             successRate: Math.round(successRate * 100) / 100
           },
+          deadLetters: {
+            total: deadLetters
+          },
+          outbox: {
+            pending: outboxPending
+          },
+          clientCertificates: {
+            expiringSoon: expiringCertificates, // Active subscriptions whose certificate expires within the warning window
+            warningDays: CERT_EXPIRY_WARNING_DAYS
+          },
           queue: {
             pending: 0,
             processing: 0
@@ -452,4 +1348,268 @@ export class AdminController {
       });
     }
   }
+
+  // Accept eventTypes as a list of types or patterns, or a single legacy eventType string
+  private static parseEventTypes(body: any): { eventTypes?: string[]; error?: string } {
+    const raw = body.eventTypes !== undefined ? body.eventTypes : [body.eventType];
+
+    if (!Array.isArray(raw) || raw.length === 0) {
+      return { error: 'eventTypes must be a non-empty array' };
+    }
+
+    const invalid = raw.find((pattern: any) => typeof pattern !== 'string' || !EventPatternUtils.isValidPattern(pattern));
+    if (invalid !== undefined) {
+      return { error: `Invalid event type pattern: ${invalid}. Use event types like candidate.created, or * for a whole segment (candidate.*, *.deleted, *)` };
+    }
+
+    return { eventTypes: Array.from(new Set<string>(raw)) };
+  }
+
+  // Check a transform template (null removes it) and its failure mode
+  private static validateTransform(transform: unknown, transformOnError: unknown): string[] {
+    const errors = transform != null ? PayloadTransformUtils.validate(transform) : [];
+
+    if (transformOnError !== undefined && !(TRANSFORM_ERROR_MODES as readonly unknown[]).includes(transformOnError)) {
+      errors.push(`transformOnError must be one of ${TRANSFORM_ERROR_MODES.join(', ')}`);
+    }
+
+    return errors;
+  }
+
+  // Load (or generate) the Ed25519 key up front so a misconfigured relay is reported when the scheme is chosen
+  private static async isSigningKeyAvailable(): Promise<boolean> {
+    try {
+      await SigningKeyService.getActiveKey();
+      return true;
+    } catch (error) {
+      console.error('Ed25519 signing key unavailable:', error);
+      return false;
+    }
+  }
+
+  // Validate outbound auth settings against the signature scheme and map them to subscription columns, encrypting the secret
+  private static buildAuthData(
+    auth: unknown,
+    signatureScheme: string | undefined,
+    current?: { type: string; hasSecret: boolean }
+  ): {
+    data?: { auth_type: string; auth_params: Prisma.InputJsonObject | Prisma.NullTypes.DbNull; auth_secret?: string | null };
+    errors: string[];
+  } {
+    const { auth: parsed, errors } = OutboundAuthUtils.parse(auth, current);
+    if (!parsed) {
+      return { errors };
+    }
+    if (parsed.type === 'none' && signatureScheme === 'none') {
+      return { errors: [UNSIGNED_WITHOUT_AUTH_ERROR] };
+    }
+
+    return {
+      data: {
+        auth_type: parsed.type,
+        auth_params: parsed.params ? (parsed.params as Prisma.InputJsonObject) : Prisma.DbNull,
+        ...(parsed.secret !== undefined && {
+          auth_secret: parsed.secret !== null ? SecurityUtils.encryptSecret(parsed.secret) : null
+        })
+      },
+      errors: []
+    };
+  }
+
+  // Circuit breaker state for API responses; held deliveries are only counted where the caller looked them up
+  private static describeCircuitBreaker(subscription: Subscription, heldDeliveries?: number) {
+    return {
+      state: subscription.circuit_state,
+      consecutiveFailures: subscription.consecutive_failures,
+      openedAt: subscription.circuit_opened_at,
+      nextProbeAt: subscription.circuit_next_probe_at,
+      ...(heldDeliveries !== undefined && { heldDeliveries })
+    };
+  }
+
+  // Validate the retry policy and request timeout (null restores the defaults); undefined fields are left out
+  private static buildDeliverySettingsData(retryPolicy: unknown, timeoutMs: unknown): {
+    data: { retry_policy?: Prisma.InputJsonObject | Prisma.NullTypes.DbNull; timeout_ms?: number | null };
+    errors: string[];
+  } {
+    const data: { retry_policy?: Prisma.InputJsonObject | Prisma.NullTypes.DbNull; timeout_ms?: number | null } = {};
+    const errors: string[] = [];
+
+    if (retryPolicy !== undefined) {
+      const { policy, errors: policyErrors } = RetryPolicyUtils.parse(retryPolicy);
+      errors.push(...policyErrors);
+      if (policy !== undefined) {
+        data.retry_policy = policy ? (policy as unknown as Prisma.InputJsonObject) : Prisma.DbNull;
+      }
+    }
+    if (timeoutMs !== undefined) {
+      const { timeoutMs: parsedTimeout, error } = RetryPolicyUtils.parseTimeout(timeoutMs);
+      if (error) {
+        errors.push(error);
+      } else {
+        data.timeout_ms = parsedTimeout;
+      }
+    }
+
+    return { data, errors };
+  }
+
+  // Validate the per-subscription request rate and in-flight limits (null removes a limit); undefined fields are left out
+  private static buildThrottleData(rateLimitPerSecond: unknown, maxInFlight: unknown): {
+    data: { rate_limit_per_second?: number | null; max_in_flight?: number | null };
+    errors: string[];
+  } {
+    const data: { rate_limit_per_second?: number | null; max_in_flight?: number | null } = {};
+    const errors: string[] = [];
+
+    const readLimit = (value: unknown, field: string, max: number): number | null | undefined => {
+      if (value === undefined || value === null) {
+        return value;
+      }
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > max) {
+        errors.push(`${field} must be an integer between 1 and ${max}, or null for no limit`);
+        return undefined;
+      }
+      return value;
+    };
+
+    const rate = readLimit(rateLimitPerSecond, 'rateLimitPerSecond', MAX_RATE_LIMIT_PER_SECOND);
+    const inFlight = readLimit(maxInFlight, 'maxInFlight', MAX_IN_FLIGHT_LIMIT);
+    if (rate !== undefined) data.rate_limit_per_second = rate;
+    if (inFlight !== undefined) data.max_in_flight = inFlight;
+
+    return { data, errors };
+  }
+
+  // Validate ordered delivery and its payload path (null orders the whole subscription); undefined fields are left out
+  private static buildOrderingData(orderedDelivery: unknown, orderingKey: unknown): {
+    data: { ordered_delivery?: boolean; ordering_key?: string | null };
+    errors: string[];
+  } {
+    const data: { ordered_delivery?: boolean; ordering_key?: string | null } = {};
+    const errors: string[] = [];
+
+    if (orderedDelivery !== undefined) {
+      if (typeof orderedDelivery !== 'boolean') {
+        errors.push('orderedDelivery must be a boolean');
+      } else {
+        data.ordered_delivery = orderedDelivery;
+      }
+    }
+
+    if (orderingKey !== undefined) {
+      if (orderingKey !== null && (
+        typeof orderingKey !== 'string' ||
+        orderingKey.length === 0 ||
+        orderingKey.length > 200 ||
+        orderingKey.split('.').some(segment => segment.length === 0)
+      )) {
+        errors.push('orderingKey must be a dot-separated payload path such as "candidateId", or null');
+      } else {
+        data.ordering_key = orderingKey;
+      }
+    }
+
+    return { data, errors };
+  }
+
+  // Validate batched delivery (a null size turns batching off, a null wait uses the default); undefined fields are left out
+  private static buildBatchingData(batchMaxSize: unknown, batchMaxWaitMs: unknown): {
+    data: { batch_max_size?: number | null; batch_max_wait_ms?: number | null };
+    errors: string[];
+  } {
+    const data: { batch_max_size?: number | null; batch_max_wait_ms?: number | null } = {};
+    const errors: string[] = [];
+
+    if (batchMaxSize === null) {
+      data.batch_max_size = null;
+      data.batch_max_wait_ms = null;
+    } else if (batchMaxSize !== undefined) {
+      if (typeof batchMaxSize !== 'number' || !Number.isInteger(batchMaxSize) || batchMaxSize < 1 || batchMaxSize > MAX_BATCH_SIZE) {
+        errors.push(`batchMaxSize must be an integer between 1 and ${MAX_BATCH_SIZE}, or null to turn batching off`);
+      } else {
+        data.batch_max_size = batchMaxSize;
+      }
+    }
+
+    if (batchMaxWaitMs !== undefined && batchMaxSize !== null) {
+      if (batchMaxWaitMs !== null && (
+        typeof batchMaxWaitMs !== 'number' ||
+        !Number.isInteger(batchMaxWaitMs) ||
+        batchMaxWaitMs < MIN_BATCH_WAIT_MS ||
+        batchMaxWaitMs > MAX_BATCH_WAIT_MS
+      )) {
+        errors.push(`batchMaxWaitMs must be an integer between ${MIN_BATCH_WAIT_MS} and ${MAX_BATCH_WAIT_MS}, or null for the default`);
+      } else {
+        data.batch_max_wait_ms = batchMaxWaitMs;
+      }
+    }
+
+    return { data, errors };
+  }
+
+  // Validate an mTLS client certificate (null removes it) and map it to encrypted subscription columns
+  private static buildClientCertificateData(clientCertificate: unknown): {
+    data?: {
+      tls_client_cert: string | null;
+      tls_client_key: string | null;
+      tls_ca_bundle: string | null;
+      tls_cert_subject: string | null;
+      tls_cert_expires_at: Date | null;
+    };
+    errors: string[];
+  } {
+    if (clientCertificate === null) {
+      return {
+        data: { tls_client_cert: null, tls_client_key: null, tls_ca_bundle: null, tls_cert_subject: null, tls_cert_expires_at: null },
+        errors: []
+      };
+    }
+
+    const { certificate, errors } = ClientCertificateUtils.parse(clientCertificate);
+    if (!certificate) {
+      return { errors };
+    }
+
+    return {
+      data: {
+        tls_client_cert: SecurityUtils.encryptSecret(certificate.certificate),
+        tls_client_key: SecurityUtils.encryptSecret(certificate.privateKey),
+        tls_ca_bundle: certificate.caBundle ? SecurityUtils.encryptSecret(certificate.caBundle) : null,
+        tls_cert_subject: certificate.subject,
+        tls_cert_expires_at: certificate.expiresAt
+      },
+      errors: []
+    };
+  }
+
+  // Public details of a subscription's client certificate; the PEMs themselves are never returned
+  private static describeClientCertificate(subscription: Subscription) {
+    if (!subscription.tls_client_cert || !subscription.tls_cert_expires_at) {
+      return null;
+    }
+
+    return {
+      subject: subscription.tls_cert_subject,
+      expiresAt: subscription.tls_cert_expires_at,
+      expiringSoon: ClientCertificateUtils.isExpiringSoon(subscription.tls_cert_expires_at),
+      hasCaBundle: !!subscription.tls_ca_bundle
+    };
+  }
+
+  // Apply the destination policy to subscriber-supplied URLs; returns why the first blocked one is refused
+  private static async checkDestinations(urls: (string | undefined)[]): Promise<string | null> {
+    for (const url of urls) {
+      if (!url) continue;
+      try {
+        await DestinationPolicy.assertAllowed(url);
+      } catch (error) {
+        if (error instanceof DestinationBlockedError) {
+          return error.message;
+        }
+        throw error;
+      }
+    }
+    return null;
+  }
 }
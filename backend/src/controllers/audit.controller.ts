@@ -0,0 +1,50 @@
+// Audit controller for reviewing sensitive admin actions
+import { Request, Response } from 'express';
+import { AuditService } from '../services/audit.service';
+
+export class AuditController {
+  // List audit log entries
+  static async getAuditLogs(req: Request, res: Response): Promise<Response> {
+    try {
+      const { page = 1, limit = 20, targetType, targetId, action } = req.query;
+
+      const { logs, total } = await AuditService.list(
+        {
+          targetType: targetType as string | undefined,
+          targetId: targetId as string | undefined,
+          action: action as string | undefined
+        },
+        Number(page),
+        Number(limit)
+      );
+
+      return res.status(200).json({
+        success: true,
+        auditLogs: logs.map(log => ({
+          id: log.id,
+          action: log.action,
+          actorId: log.actor_id,
+          actorEmail: log.actor_email,
+          targetType: log.target_type,
+          targetId: log.target_id,
+          metadata: log.metadata,
+          ipAddress: log.ip_address,
+          createdAt: log.created_at
+        })),
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      });
+    } catch (error) {
+      console.error('Error fetching audit logs:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch audit logs',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+}
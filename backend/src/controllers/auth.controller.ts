@@ -0,0 +1,80 @@
+// Auth controller for admin login and session management
+import { Request, Response } from 'express';
+import { AuthService } from '../services/auth.service';
+
+export class AuthController {
+  // Exchange email and password for a session token
+  static async login(req: Request, res: Response): Promise<Response> {
+    try {
+      const { email, password } = req.body;
+
+      if (!email || !password || typeof email !== 'string' || typeof password !== 'string') {
+        return res.status(400).json({
+          success: false,
+          error: 'email and password are required',
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      const session = await AuthService.login(email, password);
+
+      if (!session) {
+        return res.status(401).json({
+          success: false,
+          error: 'Invalid email or password',
+          code: 'INVALID_CREDENTIALS'
+        });
+      }
+
+      console.log(`✅ Admin logged in: ${session.user.email}`);
+
+      return res.status(200).json({
+        success: true,
+        token: session.token,
+        expiresAt: session.expiresAt,
+        user: {
+          id: session.user.id,
+          email: session.user.email,
+          name: session.user.name,
+          role: session.user.role
+        }
+      });
+    } catch (error) {
+      console.error('Error logging in:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to log in',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // End the current session
+  static async logout(req: Request, res: Response): Promise<Response> {
+    try {
+      await AuthService.logout(req.admin!.sessionId);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Logged out successfully'
+      });
+    } catch (error) {
+      console.error('Error logging out:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to log out',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Get the current admin user
+  static async me(req: Request, res: Response): Promise<Response> {
+    const { id, email, name, role } = req.admin!;
+
+    return res.status(200).json({
+      success: true,
+      user: { id, email, name, role }
+    });
+  }
+}
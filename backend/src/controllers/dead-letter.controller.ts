@@ -0,0 +1,305 @@
+// Dead-letter controller for inspecting, requeuing and purging exhausted deliveries
+import { Request, Response } from 'express';
+import { prisma } from '../config/prisma';
+import { DeadLetterService, DeadLetterFilter } from '../services/dead-letter.service';
+
+export class DeadLetterController {
+  // List dead letters with filtering and pagination
+  static async getDeadLetters(req: Request, res: Response): Promise<Response> {
+    try {
+      const { page = 1, limit = 20 } = req.query;
+      const skip = (Number(page) - 1) * Number(limit);
+      const where = DeadLetterService.buildWhere(req.query as DeadLetterFilter);
+
+      const [deadLetters, total] = await Promise.all([
+        prisma.deadLetter.findMany({
+          where,
+          skip,
+          take: Number(limit),
+          orderBy: { dead_lettered_at: 'desc' },
+          include: {
+            event: {
+              select: {
+                id: true,
+                event_type: true,
+                received_at: true
+              }
+            },
+            subscription: {
+              select: {
+                id: true,
+                event_types: true,
+                target_url: true,
+                is_active: true
+              }
+            }
+          }
+        }),
+        prisma.deadLetter.count({ where })
+      ]);
+
+      return res.status(200).json({
+        success: true,
+        deadLetters: deadLetters.map(deadLetter => ({
+          id: deadLetter.id,
+          deliveryLogId: deadLetter.delivery_log_id,
+          finalError: deadLetter.final_error,
+          finalStatusCode: deadLetter.final_status_code,
+          attemptCount: deadLetter.attempt_count,
+          deadLetteredAt: deadLetter.dead_lettered_at,
+          event: deadLetter.event,
+          subscription: deadLetter.subscription
+        })),
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      });
+    } catch (error) {
+      console.error('Error fetching dead letters:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch dead letters',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Inspect a dead letter with its event payload and full attempt history
+  static async getDeadLetter(req: Request, res: Response): Promise<Response> {
+    try {
+      const { deadLetterId } = req.params;
+
+      const deadLetter = await prisma.deadLetter.findUnique({
+        where: { id: deadLetterId },
+        include: {
+          event: true,
+          subscription: {
+            select: {
+              id: true,
+              event_types: true,
+              target_url: true,
+              is_active: true
+            }
+          },
+          delivery_log: {
+            include: {
+              attempts: {
+                orderBy: { attempt_number: 'asc' }
+              }
+            }
+          }
+        }
+      });
+
+      if (!deadLetter) {
+        return res.status(404).json({
+          success: false,
+          error: 'Dead letter not found',
+          code: 'DEAD_LETTER_NOT_FOUND'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        deadLetter: {
+          id: deadLetter.id,
+          deliveryLogId: deadLetter.delivery_log_id,
+          finalError: deadLetter.final_error,
+          finalStatusCode: deadLetter.final_status_code,
+          attemptCount: deadLetter.attempt_count,
+          deadLetteredAt: deadLetter.dead_lettered_at,
+          event: {
+            id: deadLetter.event.id,
+            eventType: deadLetter.event.event_type,
+            idempotencyKey: deadLetter.event.idempotency_key,
+            payload: deadLetter.event.payload,
+            receivedAt: deadLetter.event.received_at
+          },
+          subscription: deadLetter.subscription,
+          attempts: deadLetter.delivery_log.attempts.map(attempt => ({
+            id: attempt.id,
+            attemptNumber: attempt.attempt_number,
+            status: attempt.status,
+            startedAt: attempt.started_at,
+            durationMs: attempt.duration_ms,
+            responseStatusCode: attempt.response_status_code,
+            responseHeaders: attempt.response_headers,
+            responseBody: attempt.response_body,
+            errorMessage: attempt.error_message,
+            classification: attempt.classification
+          }))
+        }
+      });
+    } catch (error) {
+      console.error('Error fetching dead letter:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch dead letter',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Requeue a single dead letter
+  static async requeueDeadLetter(req: Request, res: Response): Promise<Response> {
+    try {
+      const { deadLetterId } = req.params;
+
+      const deadLetter = await prisma.deadLetter.findUnique({
+        where: { id: deadLetterId },
+        include: {
+          subscription: { select: { is_active: true } }
+        }
+      });
+
+      if (!deadLetter) {
+        return res.status(404).json({
+          success: false,
+          error: 'Dead letter not found',
+          code: 'DEAD_LETTER_NOT_FOUND'
+        });
+      }
+
+      if (!deadLetter.subscription.is_active) {
+        return res.status(400).json({
+          success: false,
+          error: 'Cannot requeue delivery for inactive subscription',
+          code: 'INACTIVE_SUBSCRIPTION'
+        });
+      }
+
+      await DeadLetterService.requeue({ id: deadLetterId });
+
+      console.log(`🔄 Requeued dead letter: ${deadLetterId}`);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Dead letter requeued successfully',
+        deadLetterId,
+        deliveryLogId: deadLetter.delivery_log_id
+      });
+    } catch (error) {
+      console.error('Error requeuing dead letter:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to requeue dead letter',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Requeue dead letters matching a filter, or all of them
+  static async requeueDeadLetters(req: Request, res: Response): Promise<Response> {
+    try {
+      const { all, ...filter } = req.body || {};
+
+      const scopeError = DeadLetterController.validateBulkScope(all, filter);
+      if (scopeError) {
+        return res.status(400).json({
+          success: false,
+          error: scopeError,
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      const result = await DeadLetterService.requeue(all ? {} : DeadLetterService.buildWhere(filter));
+
+      console.log(`🔄 Requeued ${result.requeued} dead letters (${result.skipped} skipped)`);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Dead letters requeued successfully',
+        ...result
+      });
+    } catch (error) {
+      console.error('Error requeuing dead letters:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to requeue dead letters',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Purge a single dead letter
+  static async purgeDeadLetter(req: Request, res: Response): Promise<Response> {
+    try {
+      const { deadLetterId } = req.params;
+
+      const result = await DeadLetterService.purge({ id: deadLetterId });
+
+      if (result.purged === 0) {
+        return res.status(404).json({
+          success: false,
+          error: 'Dead letter not found',
+          code: 'DEAD_LETTER_NOT_FOUND'
+        });
+      }
+
+      console.log(`🗑️ Purged dead letter: ${deadLetterId}`);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Dead letter purged successfully'
+      });
+    } catch (error) {
+      console.error('Error purging dead letter:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to purge dead letter',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Purge dead letters matching a filter, or all of them
+  static async purgeDeadLetters(req: Request, res: Response): Promise<Response> {
+    try {
+      const { all, ...filter } = req.body || {};
+
+      const scopeError = DeadLetterController.validateBulkScope(all, filter);
+      if (scopeError) {
+        return res.status(400).json({
+          success: false,
+          error: scopeError,
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      const result = await DeadLetterService.purge(all ? {} : DeadLetterService.buildWhere(filter));
+
+      console.log(`🗑️ Purged ${result.purged} dead letters`);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Dead letters purged successfully',
+        ...result
+      });
+    } catch (error) {
+      console.error('Error purging dead letters:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to purge dead letters',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Bulk actions need an explicit filter or all: true so an empty body can't hit everything
+  private static validateBulkScope(all: any, filter: DeadLetterFilter): string | undefined {
+    const hasFilter = !!(filter.subscriptionId || filter.eventType || filter.startDate || filter.endDate);
+
+    if (all !== undefined && typeof all !== 'boolean') {
+      return 'all must be a boolean';
+    }
+
+    if (!all && !hasFilter) {
+      return 'Provide a filter (subscriptionId, eventType, startDate, endDate) or set all to true';
+    }
+
+    return undefined;
+  }
+}
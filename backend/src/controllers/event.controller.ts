@@ -1,8 +1,11 @@
 // Event controller for handling event-related operations
 import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
 import { prisma } from '../config/prisma';
-import { WebhookService } from '../services/webhook.service';
+import { OutboxService } from '../services/outbox.service';
+import { SchemaRegistryService } from '../services/schema-registry.service';
 import { SecurityUtils } from '../utils/security';
+import { canPublishEventType } from '../middleware/producer-auth.middleware';
 
 export interface EventRequest {
   eventType: string;
@@ -10,6 +13,17 @@ export interface EventRequest {
   idempotencyKey?: string;
 }
 
+export interface BatchEventResult {
+  index: number;
+  status: 'accepted' | 'duplicate' | 'rejected';
+  idempotencyKey?: string;
+  eventId?: string;
+  error?: string;
+  code?: string;
+  details?: string[];
+  warnings?: string[];
+}
+
 export class EventController {
   // Process incoming events from internal AlgoHire modules
   static async processEvent(req: Request, res: Response): Promise<Response> {
@@ -39,6 +53,30 @@ export class EventController {
       }
 
       const { eventType, payload } = req.body as EventRequest;
+      const producer = req.producer!;
+
+      if (!canPublishEventType(producer, eventType)) {
+        return res.status(403).json({
+          success: false,
+          error: `Producer is not allowed to publish event type: ${eventType}`,
+          code: 'EVENT_TYPE_NOT_ALLOWED'
+        });
+      }
+
+      // Validate payload against the registered schema for this event type
+      const schemaResult = await SchemaRegistryService.validatePayload(eventType, payload);
+      if (!schemaResult.valid && schemaResult.mode === 'strict') {
+        return res.status(400).json({
+          success: false,
+          error: `payload does not match schema v${schemaResult.version} for ${eventType}`,
+          code: 'SCHEMA_VALIDATION_ERROR',
+          details: schemaResult.errors
+        });
+      }
+
+      if (!schemaResult.valid) {
+        console.warn(`⚠️ Event payload for ${eventType} does not match schema v${schemaResult.version}:`, schemaResult.errors);
+      }
 
       // Check for duplicate event using idempotency key
       const existingEvent = await prisma.event.findUnique({
@@ -56,25 +94,28 @@ export class EventController {
         });
       }
 
-      // Store event in database
+      // Store event in database together with its outbox entry
       const event = await prisma.event.create({
         data: {
           idempotency_key: idempotencyKey,
           event_type: eventType,
           payload: payload,
-          received_at: new Date()
+          schema_version: schemaResult.version,
+          producer_id: producer.id,
+          received_at: new Date(),
+          outbox_entry: { create: {} }
         }
       });
 
-      console.log(`✅ Event stored successfully: ${event.id} (type: ${eventType})`);
+      console.log(`✅ Event stored successfully: ${event.id} (type: ${eventType}, producer: ${producer.name})`);
+      await SchemaRegistryService.recordSeen([eventType]);
 
-      // Queue webhook deliveries for background processing
+      // Hand off to the queue now; if that fails the outbox relay retries it
       try {
-        await WebhookService.queueWebhookDeliveries(event.id, eventType);
+        await OutboxService.dispatch([event.id]);
         console.log(`📤 Webhook deliveries queued for event: ${event.id}`);
       } catch (queueError) {
-        console.error(`⚠️ Failed to queue webhook deliveries for event ${event.id}:`, queueError);
-        // Don't fail the request if queuing fails - event is still stored
+        console.error(`⚠️ Failed to queue webhook deliveries for event ${event.id}, left for outbox relay:`, queueError);
       }
 
       const processingTime = Date.now() - startTime;
@@ -87,6 +128,7 @@ export class EventController {
         eventType: event.event_type,
         idempotencyKey: event.idempotency_key,
         receivedAt: event.received_at,
+        ...(!schemaResult.valid && { warnings: schemaResult.errors }),
         processingTimeMs: processingTime
       });
 
@@ -118,6 +160,238 @@ export class EventController {
     }
   }
 
+  // Process a batch of events, each carrying its own idempotency key
+  static async processEventBatch(req: Request, res: Response): Promise<Response> {
+    const startTime = Date.now();
+    console.log('🎯 EventController.processEventBatch called');
+
+    try {
+      const events = req.body?.events;
+      const producer = req.producer!;
+      const maxBatchSize = parseInt(process.env.MAX_EVENT_BATCH_SIZE || '100');
+
+      if (!Array.isArray(events) || events.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'events is required and must be a non-empty array',
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      if (events.length > maxBatchSize) {
+        return res.status(400).json({
+          success: false,
+          error: `Batch size exceeds limit of ${maxBatchSize} events`,
+          code: 'BATCH_TOO_LARGE'
+        });
+      }
+
+      const results: BatchEventResult[] = new Array(events.length);
+      const candidates: {
+        index: number;
+        idempotencyKey: string;
+        eventType: string;
+        payload: any;
+        schemaVersion?: number;
+        warnings?: string[];
+      }[] = [];
+      const seenKeys = new Map<string, number>();
+
+      // Validate each item independently so one bad event doesn't fail the batch
+      for (const [index, item] of events.entries()) {
+        const idempotencyKey = item?.idempotencyKey;
+
+        if (!idempotencyKey || typeof idempotencyKey !== 'string') {
+          results[index] = {
+            index,
+            status: 'rejected',
+            error: 'idempotencyKey is required and must be a string',
+            code: 'MISSING_IDEMPOTENCY_KEY'
+          };
+          continue;
+        }
+
+        const validationResult = EventController.validateEventRequest(item);
+        if (!validationResult.isValid) {
+          results[index] = {
+            index,
+            status: 'rejected',
+            idempotencyKey,
+            error: validationResult.error,
+            code: 'VALIDATION_ERROR'
+          };
+          continue;
+        }
+
+        if (seenKeys.has(idempotencyKey)) {
+          results[index] = {
+            index,
+            status: 'duplicate',
+            idempotencyKey,
+            error: `Duplicate of item ${seenKeys.get(idempotencyKey)} in this batch`,
+            code: 'DUPLICATE_IN_BATCH'
+          };
+          continue;
+        }
+
+        if (!canPublishEventType(producer, item.eventType)) {
+          results[index] = {
+            index,
+            status: 'rejected',
+            idempotencyKey,
+            error: `Producer is not allowed to publish event type: ${item.eventType}`,
+            code: 'EVENT_TYPE_NOT_ALLOWED'
+          };
+          continue;
+        }
+
+        const schemaResult = await SchemaRegistryService.validatePayload(item.eventType, item.payload);
+        if (!schemaResult.valid && schemaResult.mode === 'strict') {
+          results[index] = {
+            index,
+            status: 'rejected',
+            idempotencyKey,
+            error: `payload does not match schema v${schemaResult.version} for ${item.eventType}`,
+            code: 'SCHEMA_VALIDATION_ERROR',
+            details: schemaResult.errors
+          };
+          continue;
+        }
+
+        seenKeys.set(idempotencyKey, index);
+        candidates.push({
+          index,
+          idempotencyKey,
+          eventType: item.eventType,
+          payload: item.payload,
+          schemaVersion: schemaResult.version,
+          warnings: schemaResult.valid ? undefined : schemaResult.errors
+        });
+      }
+
+      // Resolve events that were already processed in earlier requests
+      const existingEvents = candidates.length > 0
+        ? await prisma.event.findMany({
+            where: { idempotency_key: { in: candidates.map(c => c.idempotencyKey) } },
+            select: { id: true, idempotency_key: true }
+          })
+        : [];
+      const existingByKey = new Map(existingEvents.map(e => [e.idempotency_key, e.id]));
+
+      const receivedAt = new Date();
+      const rows = candidates
+        .filter(c => !existingByKey.has(c.idempotencyKey))
+        .map(c => ({
+          index: c.index,
+          data: {
+            id: uuidv4(),
+            idempotency_key: c.idempotencyKey,
+            event_type: c.eventType,
+            payload: c.payload,
+            schema_version: c.schemaVersion,
+            producer_id: producer.id,
+            received_at: receivedAt
+          }
+        }));
+
+      // Events and their outbox entries commit together
+      const createdIds = new Set(
+        rows.length > 0
+          ? await prisma.$transaction(async tx => {
+              // skipDuplicates covers keys inserted concurrently by another request
+              await tx.event.createMany({
+                data: rows.map(r => r.data),
+                skipDuplicates: true
+              });
+
+              const created = (await tx.event.findMany({
+                where: { id: { in: rows.map(r => r.data.id) } },
+                select: { id: true }
+              })).map(e => e.id);
+
+              await tx.outboxEntry.createMany({
+                data: created.map(id => ({ event_id: id }))
+              });
+
+              return created;
+            })
+          : []
+      );
+
+      const racedKeys = rows.filter(r => !createdIds.has(r.data.id)).map(r => r.data.idempotency_key);
+      if (racedKeys.length > 0) {
+        const racedEvents = await prisma.event.findMany({
+          where: { idempotency_key: { in: racedKeys } },
+          select: { id: true, idempotency_key: true }
+        });
+        racedEvents.forEach(e => existingByKey.set(e.idempotency_key, e.id));
+      }
+
+      const rowsByIndex = new Map(rows.map(r => [r.index, r]));
+      const acceptedEvents: { eventId: string; eventType: string }[] = [];
+      for (const candidate of candidates) {
+        const row = rowsByIndex.get(candidate.index);
+
+        if (row && createdIds.has(row.data.id)) {
+          acceptedEvents.push({ eventId: row.data.id, eventType: row.data.event_type });
+          results[candidate.index] = {
+            index: candidate.index,
+            status: 'accepted',
+            idempotencyKey: candidate.idempotencyKey,
+            eventId: row.data.id,
+            warnings: candidate.warnings
+          };
+        } else {
+          results[candidate.index] = {
+            index: candidate.index,
+            status: 'duplicate',
+            idempotencyKey: candidate.idempotencyKey,
+            eventId: existingByKey.get(candidate.idempotencyKey)
+          };
+        }
+      }
+
+      console.log(`✅ Batch stored: ${acceptedEvents.length}/${events.length} events accepted`);
+      await SchemaRegistryService.recordSeen(acceptedEvents.map(e => e.eventType));
+
+      // Hand off to the queue now; if that fails the outbox relay retries it
+      if (acceptedEvents.length > 0) {
+        try {
+          await OutboxService.dispatch(acceptedEvents.map(e => e.eventId));
+          console.log(`📤 Webhook deliveries queued for ${acceptedEvents.length} batched events`);
+        } catch (queueError) {
+          console.error('⚠️ Failed to queue webhook deliveries for batch, left for outbox relay:', queueError);
+        }
+      }
+
+      const processingTime = Date.now() - startTime;
+
+      return res.status(202).json({
+        success: true,
+        message: 'Batch processed',
+        summary: {
+          total: events.length,
+          accepted: results.filter(r => r.status === 'accepted').length,
+          duplicates: results.filter(r => r.status === 'duplicate').length,
+          rejected: results.filter(r => r.status === 'rejected').length
+        },
+        results,
+        processingTimeMs: processingTime
+      });
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      console.error('❌ Error processing event batch:', error);
+
+      return res.status(500).json({
+        success: false,
+        error: 'Internal server error while processing event batch',
+        code: 'INTERNAL_ERROR',
+        processingTimeMs: processingTime
+      });
+    }
+  }
+
   // Validate incoming event request
   private static validateEventRequest(body: any): { isValid: boolean; error?: string } {
     if (!body || typeof body !== 'object') {
@@ -136,8 +410,7 @@ export class EventController {
     }
 
     // Validate eventType format (alphanumeric with dots and underscores)
-    const eventTypeRegex = /^[a-zA-Z0-9._-]+$/;
-    if (!eventTypeRegex.test(eventType)) {
+    if (!SecurityUtils.isValidEventType(eventType)) {
       return { isValid: false, error: 'eventType must contain only alphanumeric characters, dots, underscores, and hyphens' };
     }
 
@@ -177,10 +450,13 @@ export class EventController {
         include: {
           delivery_logs: {
             include: {
+              attempts: {
+                orderBy: { attempt_number: 'asc' }
+              },
               subscription: {
                 select: {
                   id: true,
-                  event_type: true,
+                  event_types: true,
                   target_url: true,
                   is_active: true
                 }
@@ -193,7 +469,8 @@ export class EventController {
         }
       });
 
-      if (!event) {
+      // Producers can only inspect the events they emitted
+      if (!event || event.producer_id !== req.producer?.id) {
         return res.status(404).json({
           success: false,
           error: 'Event not found',
@@ -208,6 +485,7 @@ export class EventController {
           eventType: event.event_type,
           idempotencyKey: event.idempotency_key,
           payload: event.payload,
+          producerId: event.producer_id,
           receivedAt: event.received_at,
           deliveryLogs: event.delivery_logs
         }
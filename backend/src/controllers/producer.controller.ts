@@ -0,0 +1,183 @@
+// Producer controller for issuing and revoking ingestion API keys
+import { Request, Response } from 'express';
+import { prisma } from '../config/prisma';
+import { SecurityUtils } from '../utils/security';
+import { EventPatternUtils } from '../utils/event-pattern';
+
+export class ProducerController {
+  // List producers and the state of their keys
+  static async getProducers(req: Request, res: Response): Promise<Response> {
+    try {
+      const { page = 1, limit = 20, isActive } = req.query;
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const where: any = {};
+      if (isActive !== undefined) where.is_active = isActive === 'true';
+
+      const [producers, total] = await Promise.all([
+        prisma.producer.findMany({
+          where,
+          skip,
+          take: Number(limit),
+          orderBy: { created_at: 'desc' },
+          include: {
+            _count: {
+              select: { events: true }
+            }
+          }
+        }),
+        prisma.producer.count({ where })
+      ]);
+
+      return res.status(200).json({
+        success: true,
+        producers: producers.map(producer => ({
+          id: producer.id,
+          name: producer.name,
+          apiKeyPrefix: producer.api_key_prefix,
+          allowedEventTypes: producer.allowed_event_types,
+          isActive: producer.is_active,
+          lastUsedAt: producer.last_used_at,
+          revokedAt: producer.revoked_at,
+          createdAt: producer.created_at,
+          eventCount: producer._count.events
+        })),
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      });
+    } catch (error) {
+      console.error('Error fetching producers:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch producers',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Issue a new producer API key
+  static async createProducer(req: Request, res: Response): Promise<Response> {
+    try {
+      const { name, allowedEventTypes } = req.body;
+
+      if (!name || typeof name !== 'string') {
+        return res.status(400).json({
+          success: false,
+          error: 'name is required and must be a string',
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      if (!Array.isArray(allowedEventTypes) || allowedEventTypes.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'allowedEventTypes is required and must be a non-empty array',
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      const invalidType = allowedEventTypes.find((type: any) =>
+        typeof type !== 'string' || !EventPatternUtils.isValidPattern(type)
+      );
+      if (invalidType !== undefined) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid event type in allowedEventTypes: ${invalidType}`,
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      const apiKey = SecurityUtils.generateApiKey();
+
+      const producer = await prisma.producer.create({
+        data: {
+          name,
+          api_key_hash: SecurityUtils.hashToken(apiKey),
+          api_key_prefix: apiKey.substring(0, 12),
+          allowed_event_types: allowedEventTypes
+        }
+      });
+
+      console.log(`✅ Issued API key for producer: ${producer.id} (${producer.name})`);
+
+      return res.status(201).json({
+        success: true,
+        message: 'Producer created successfully',
+        producer: {
+          id: producer.id,
+          name: producer.name,
+          apiKeyPrefix: producer.api_key_prefix,
+          allowedEventTypes: producer.allowed_event_types,
+          isActive: producer.is_active,
+          createdAt: producer.created_at,
+          apiKey // Only returned once, store it securely
+        }
+      });
+    } catch (error) {
+      console.error('Error creating producer:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create producer',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Revoke a producer API key
+  static async revokeProducer(req: Request, res: Response): Promise<Response> {
+    try {
+      const { producerId } = req.params;
+
+      const existing = await prisma.producer.findUnique({ where: { id: producerId } });
+
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          error: 'Producer not found',
+          code: 'PRODUCER_NOT_FOUND'
+        });
+      }
+
+      if (existing.revoked_at) {
+        return res.status(400).json({
+          success: false,
+          error: 'Producer API key is already revoked',
+          code: 'ALREADY_REVOKED'
+        });
+      }
+
+      const producer = await prisma.producer.update({
+        where: { id: producerId },
+        data: {
+          is_active: false,
+          revoked_at: new Date()
+        }
+      });
+
+      console.log(`✅ Revoked API key for producer: ${producer.id}`);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Producer API key revoked successfully',
+        producer: {
+          id: producer.id,
+          name: producer.name,
+          apiKeyPrefix: producer.api_key_prefix,
+          isActive: producer.is_active,
+          revokedAt: producer.revoked_at
+        }
+      });
+    } catch (error) {
+      console.error('Error revoking producer:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to revoke producer',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+}
@@ -0,0 +1,292 @@
+// Schema controller for the event schema registry and public event catalog
+import { Request, Response } from 'express';
+import { prisma } from '../config/prisma';
+import { SchemaRegistryService, VALIDATION_MODES, ValidationMode } from '../services/schema-registry.service';
+import { SecurityUtils } from '../utils/security';
+
+export class SchemaController {
+  // List registered event types with their latest schema version
+  static async getEventTypes(req: Request, res: Response): Promise<Response> {
+    try {
+      const eventTypes = await prisma.eventType.findMany({
+        orderBy: { name: 'asc' },
+        include: {
+          schemas: {
+            orderBy: { version: 'desc' },
+            take: 1
+          },
+          _count: {
+            select: { schemas: true }
+          }
+        }
+      });
+
+      return res.status(200).json({
+        success: true,
+        eventTypes: eventTypes.map(type => ({
+          name: type.name,
+          description: type.description,
+          validationMode: type.validation_mode,
+          latestVersion: type.schemas[0]?.version ?? null,
+          versionCount: type._count.schemas,
+          createdAt: type.created_at,
+          updatedAt: type.updated_at
+        }))
+      });
+    } catch (error) {
+      console.error('Error fetching event types:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch event types',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Get an event type with every registered schema version
+  static async getEventType(req: Request, res: Response): Promise<Response> {
+    try {
+      const { eventType } = req.params;
+
+      const type = await prisma.eventType.findUnique({
+        where: { name: eventType },
+        include: {
+          schemas: {
+            orderBy: { version: 'desc' }
+          }
+        }
+      });
+
+      if (!type) {
+        return res.status(404).json({
+          success: false,
+          error: 'Event type not found',
+          code: 'EVENT_TYPE_NOT_FOUND'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        eventType: {
+          name: type.name,
+          description: type.description,
+          validationMode: type.validation_mode,
+          createdAt: type.created_at,
+          updatedAt: type.updated_at,
+          schemas: type.schemas.map(schema => ({
+            version: schema.version,
+            schema: schema.schema,
+            createdAt: schema.created_at
+          }))
+        }
+      });
+    } catch (error) {
+      console.error('Error fetching event type:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch event type',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Register a new schema version for an event type
+  static async registerSchema(req: Request, res: Response): Promise<Response> {
+    try {
+      const { eventType } = req.params;
+      const { schema, description, validationMode } = req.body;
+
+      if (!SecurityUtils.isValidEventType(eventType)) {
+        return res.status(400).json({
+          success: false,
+          error: 'eventType must contain only alphanumeric characters, dots, underscores, and hyphens',
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      if (validationMode !== undefined && !VALIDATION_MODES.includes(validationMode)) {
+        return res.status(400).json({
+          success: false,
+          error: `validationMode must be one of: ${VALIDATION_MODES.join(', ')}`,
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      const compileResult = SchemaRegistryService.compileSchema(schema);
+      if (!compileResult.isValid) {
+        return res.status(400).json({
+          success: false,
+          error: compileResult.error,
+          code: 'INVALID_SCHEMA'
+        });
+      }
+
+      const registered = await SchemaRegistryService.registerSchema(eventType, schema, {
+        description,
+        validationMode: validationMode as ValidationMode | undefined
+      });
+
+      console.log(`✅ Registered schema v${registered.version} for event type: ${eventType}`);
+
+      return res.status(201).json({
+        success: true,
+        message: 'Schema registered successfully',
+        schema: {
+          eventType: registered.event_type,
+          version: registered.version,
+          schema: registered.schema,
+          createdAt: registered.created_at
+        }
+      });
+    } catch (error) {
+      console.error('Error registering schema:', error);
+      if (error instanceof Error && error.message.includes('Unique constraint')) {
+        return res.status(409).json({
+          success: false,
+          error: 'A schema version was registered concurrently, please retry',
+          code: 'SCHEMA_VERSION_CONFLICT'
+        });
+      }
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to register schema',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Update event type settings such as strictness
+  static async updateEventType(req: Request, res: Response): Promise<Response> {
+    try {
+      const { eventType } = req.params;
+      const { description, validationMode } = req.body;
+
+      if (validationMode !== undefined && !VALIDATION_MODES.includes(validationMode)) {
+        return res.status(400).json({
+          success: false,
+          error: `validationMode must be one of: ${VALIDATION_MODES.join(', ')}`,
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      const updateData: any = {};
+      if (description !== undefined) updateData.description = description;
+      if (validationMode !== undefined) updateData.validation_mode = validationMode;
+
+      const type = await prisma.eventType.update({
+        where: { name: eventType },
+        data: updateData
+      });
+
+      SchemaRegistryService.invalidate(eventType);
+      console.log(`✅ Updated event type: ${eventType}`);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Event type updated successfully',
+        eventType: {
+          name: type.name,
+          description: type.description,
+          validationMode: type.validation_mode,
+          updatedAt: type.updated_at
+        }
+      });
+    } catch (error) {
+      console.error('Error updating event type:', error);
+      if (error instanceof Error && error.message.includes('Record to update not found')) {
+        return res.status(404).json({
+          success: false,
+          error: 'Event type not found',
+          code: 'EVENT_TYPE_NOT_FOUND'
+        });
+      }
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update event type',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Public catalog of event types and their current payload schemas
+  static async getCatalog(req: Request, res: Response): Promise<Response> {
+    try {
+      const types = await prisma.eventType.findMany({
+        orderBy: { name: 'asc' },
+        include: {
+          schemas: {
+            orderBy: { version: 'desc' },
+            take: 1
+          }
+        }
+      });
+
+      const catalog = types.map(type => {
+        const latest = type.schemas[0];
+        return {
+          eventType: type.name,
+          description: type.description,
+          version: latest?.version ?? null,
+          schema: latest?.schema ?? null,
+          lastSeenAt: type.last_seen_at
+        };
+      });
+
+      return res.status(200).json({
+        success: true,
+        eventTypes: catalog
+      });
+    } catch (error) {
+      console.error('Error fetching event catalog:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch event catalog',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Public catalog entry with every schema version of an event type
+  static async getCatalogEntry(req: Request, res: Response): Promise<Response> {
+    try {
+      const { eventType } = req.params;
+
+      const type = await prisma.eventType.findUnique({
+        where: { name: eventType },
+        include: {
+          schemas: {
+            orderBy: { version: 'desc' }
+          }
+        }
+      });
+
+      if (!type) {
+        return res.status(404).json({
+          success: false,
+          error: 'Event type not found in catalog',
+          code: 'EVENT_TYPE_NOT_FOUND'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        eventType: {
+          eventType: type.name,
+          description: type.description,
+          versions: type.schemas.map(schema => ({
+            version: schema.version,
+            schema: schema.schema,
+            createdAt: schema.created_at
+          }))
+        }
+      });
+    } catch (error) {
+      console.error('Error fetching catalog entry:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch catalog entry',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+}
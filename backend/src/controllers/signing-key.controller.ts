@@ -0,0 +1,98 @@
+// Signing key controller for the public JWKS and Ed25519 key rotation
+import { Request, Response } from 'express';
+import { AuditService } from '../services/audit.service';
+import {
+  SigningKeyService,
+  DEFAULT_KEY_RETIREMENT_HOURS,
+  MAX_KEY_RETIREMENT_HOURS
+} from '../services/signing-key.service';
+
+export class SigningKeyController {
+  // Publish the public keys used for ed25519 webhook signatures
+  static async getJwks(req: Request, res: Response): Promise<Response> {
+    try {
+      const jwks = await SigningKeyService.getJwks();
+
+      res.set('Cache-Control', 'public, max-age=300');
+      return res.status(200).json(jwks);
+    } catch (error) {
+      console.error('Error fetching JWKS:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch signing keys',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // List published signing keys
+  static async getSigningKeys(req: Request, res: Response): Promise<Response> {
+    try {
+      const keys = await SigningKeyService.getPublishedKeys();
+
+      return res.status(200).json({
+        success: true,
+        signingKeys: keys.map(key => ({
+          id: key.id,
+          kid: key.kid,
+          algorithm: key.algorithm,
+          status: key.status,
+          createdAt: key.created_at,
+          retiresAt: key.retires_at
+        }))
+      });
+    } catch (error) {
+      console.error('Error fetching signing keys:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch signing keys',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Rotate the Ed25519 signing key
+  static async rotateSigningKey(req: Request, res: Response): Promise<Response> {
+    try {
+      const { retireAfterHours = DEFAULT_KEY_RETIREMENT_HOURS } = req.body || {};
+
+      if (typeof retireAfterHours !== 'number' || retireAfterHours < 0 || retireAfterHours > MAX_KEY_RETIREMENT_HOURS) {
+        return res.status(400).json({
+          success: false,
+          error: `retireAfterHours must be a number between 0 and ${MAX_KEY_RETIREMENT_HOURS}`,
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      const key = await SigningKeyService.rotate(retireAfterHours);
+
+      await AuditService.record(req, {
+        action: 'signing_key.rotate',
+        targetType: 'signing_key',
+        targetId: key.kid,
+        metadata: { retireAfterHours }
+      });
+
+      console.log(`🔏 Rotated Ed25519 signing key to ${key.kid} (previous keys retire in ${retireAfterHours}h)`);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Signing key rotated successfully',
+        signingKey: {
+          id: key.id,
+          kid: key.kid,
+          algorithm: key.algorithm,
+          status: key.status,
+          createdAt: key.created_at
+        }
+      });
+    } catch (error) {
+      console.error('Error rotating signing key:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to rotate signing key',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+}
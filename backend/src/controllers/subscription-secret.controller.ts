@@ -0,0 +1,118 @@
+// Subscription secret controller for rotating and revealing signing secrets
+import { Request, Response } from 'express';
+import { prisma } from '../config/prisma';
+import { AuditService } from '../services/audit.service';
+import { SecurityUtils } from '../utils/security';
+import {
+  SubscriptionSecretService,
+  DEFAULT_SECRET_GRACE_HOURS,
+  MAX_SECRET_GRACE_HOURS
+} from '../services/subscription-secret.service';
+
+export class SubscriptionSecretController {
+  // Rotate a subscription's signing secret with an overlap window
+  static async rotateSecret(req: Request, res: Response): Promise<Response> {
+    try {
+      const { subscriptionId } = req.params;
+      const { gracePeriodHours = DEFAULT_SECRET_GRACE_HOURS } = req.body || {};
+
+      if (typeof gracePeriodHours !== 'number' || gracePeriodHours < 0 || gracePeriodHours > MAX_SECRET_GRACE_HOURS) {
+        return res.status(400).json({
+          success: false,
+          error: `gracePeriodHours must be a number between 0 and ${MAX_SECRET_GRACE_HOURS}`,
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      const subscription = await SubscriptionSecretService.rotate(subscriptionId, gracePeriodHours);
+
+      if (!subscription) {
+        return res.status(404).json({
+          success: false,
+          error: 'Subscription not found',
+          code: 'SUBSCRIPTION_NOT_FOUND'
+        });
+      }
+
+      await AuditService.record(req, {
+        action: 'subscription.secret.rotate',
+        targetType: 'subscription',
+        targetId: subscription.id,
+        metadata: { gracePeriodHours }
+      });
+
+      console.log(`🔑 Rotated signing secret for subscription: ${subscription.id} (grace period: ${gracePeriodHours}h)`);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Signing secret rotated successfully',
+        subscription: {
+          id: subscription.id,
+          secretKey: subscription.secret_key, // Only returned here and by the audited reveal endpoint
+          standardWebhooksSecret: SecurityUtils.toStandardWebhooksSecret(subscription.secret_key),
+          secretRotatedAt: subscription.secret_rotated_at,
+          previousSecretExpiresAt: subscription.previous_secret_expires_at
+        }
+      });
+    } catch (error) {
+      console.error('Error rotating subscription secret:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to rotate signing secret',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Reveal the current signing secret; every call is written to the audit log
+  static async revealSecret(req: Request, res: Response): Promise<Response> {
+    try {
+      const { subscriptionId } = req.params;
+
+      const subscription = await prisma.subscription.findUnique({
+        where: { id: subscriptionId },
+        select: {
+          id: true,
+          secret_key: true,
+          signature_scheme: true,
+          secret_rotated_at: true,
+          previous_secret_expires_at: true
+        }
+      });
+
+      if (!subscription) {
+        return res.status(404).json({
+          success: false,
+          error: 'Subscription not found',
+          code: 'SUBSCRIPTION_NOT_FOUND'
+        });
+      }
+
+      // Audit before responding so a secret is never shown without a record
+      await AuditService.record(req, {
+        action: 'subscription.secret.reveal',
+        targetType: 'subscription',
+        targetId: subscription.id
+      });
+
+      return res.status(200).json({
+        success: true,
+        subscription: {
+          id: subscription.id,
+          secretKey: subscription.secret_key,
+          standardWebhooksSecret: SecurityUtils.toStandardWebhooksSecret(subscription.secret_key),
+          signatureScheme: subscription.signature_scheme,
+          secretRotatedAt: subscription.secret_rotated_at,
+          previousSecretExpiresAt: subscription.previous_secret_expires_at
+        }
+      });
+    } catch (error) {
+      console.error('Error revealing subscription secret:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to reveal signing secret',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+}
@@ -0,0 +1,224 @@
+// User controller for managing admin dashboard users
+import { Request, Response } from 'express';
+import { prisma } from '../config/prisma';
+import { ADMIN_ROLES } from '../services/auth.service';
+import { SecurityUtils } from '../utils/security';
+
+const MIN_PASSWORD_LENGTH = 12;
+
+export class UserController {
+  // List admin users
+  static async getUsers(req: Request, res: Response): Promise<Response> {
+    try {
+      const users = await prisma.adminUser.findMany({
+        orderBy: { created_at: 'desc' }
+      });
+
+      return res.status(200).json({
+        success: true,
+        users: users.map(user => ({
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          isActive: user.is_active,
+          lastLoginAt: user.last_login_at,
+          createdAt: user.created_at
+        }))
+      });
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch users',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Create admin user
+  static async createUser(req: Request, res: Response): Promise<Response> {
+    try {
+      const { email, name, password, role = 'viewer' } = req.body;
+
+      if (!email || typeof email !== 'string' || !password || typeof password !== 'string') {
+        return res.status(400).json({
+          success: false,
+          error: 'email and password are required',
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({
+          success: false,
+          error: `password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      if (!ADMIN_ROLES.includes(role)) {
+        return res.status(400).json({
+          success: false,
+          error: `role must be one of: ${ADMIN_ROLES.join(', ')}`,
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      const user = await prisma.adminUser.create({
+        data: {
+          email: email.toLowerCase(),
+          name,
+          password_hash: SecurityUtils.hashPassword(password),
+          role
+        }
+      });
+
+      console.log(`✅ Created admin user: ${user.email} (${user.role})`);
+
+      return res.status(201).json({
+        success: true,
+        message: 'User created successfully',
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          isActive: user.is_active,
+          createdAt: user.created_at
+        }
+      });
+    } catch (error) {
+      console.error('Error creating user:', error);
+      if (error instanceof Error && error.message.includes('Unique constraint')) {
+        return res.status(409).json({
+          success: false,
+          error: 'A user with this email already exists',
+          code: 'DUPLICATE_USER'
+        });
+      }
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create user',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Update role, status, name or password of an admin user
+  static async updateUser(req: Request, res: Response): Promise<Response> {
+    try {
+      const { userId } = req.params;
+      const { name, password, role, isActive } = req.body;
+
+      if (role !== undefined && !ADMIN_ROLES.includes(role)) {
+        return res.status(400).json({
+          success: false,
+          error: `role must be one of: ${ADMIN_ROLES.join(', ')}`,
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      if (password !== undefined && (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH)) {
+        return res.status(400).json({
+          success: false,
+          error: `password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      if (userId === req.admin!.id && ((role !== undefined && role !== 'admin') || isActive === false)) {
+        return res.status(400).json({
+          success: false,
+          error: 'You cannot demote or deactivate your own account',
+          code: 'INVALID_SELF_UPDATE'
+        });
+      }
+
+      const updateData: any = {};
+      if (name !== undefined) updateData.name = name;
+      if (role !== undefined) updateData.role = role;
+      if (isActive !== undefined) updateData.is_active = isActive;
+      if (password !== undefined) updateData.password_hash = SecurityUtils.hashPassword(password);
+
+      const user = await prisma.adminUser.update({
+        where: { id: userId },
+        data: updateData
+      });
+
+      // Force re-login after credential or access changes
+      if (password !== undefined || isActive === false) {
+        await prisma.adminSession.deleteMany({ where: { user_id: userId } });
+      }
+
+      console.log(`✅ Updated admin user: ${user.email}`);
+
+      return res.status(200).json({
+        success: true,
+        message: 'User updated successfully',
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          isActive: user.is_active,
+          updatedAt: user.updated_at
+        }
+      });
+    } catch (error) {
+      console.error('Error updating user:', error);
+      if (error instanceof Error && error.message.includes('Record to update not found')) {
+        return res.status(404).json({
+          success: false,
+          error: 'User not found',
+          code: 'USER_NOT_FOUND'
+        });
+      }
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update user',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  // Delete admin user
+  static async deleteUser(req: Request, res: Response): Promise<Response> {
+    try {
+      const { userId } = req.params;
+
+      if (userId === req.admin!.id) {
+        return res.status(400).json({
+          success: false,
+          error: 'You cannot delete your own account',
+          code: 'INVALID_SELF_UPDATE'
+        });
+      }
+
+      await prisma.adminUser.delete({
+        where: { id: userId }
+      });
+
+      console.log(`✅ Deleted admin user: ${userId}`);
+
+      return res.status(200).json({
+        success: true,
+        message: 'User deleted successfully'
+      });
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      if (error instanceof Error && error.message.includes('Record to delete does not exist')) {
+        return res.status(404).json({
+          success: false,
+          error: 'User not found',
+          code: 'USER_NOT_FOUND'
+        });
+      }
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to delete user',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+}
@@ -5,8 +5,14 @@ import helmet from 'helmet';
 import dotenv from 'dotenv';
 import { WebhookService } from './services/webhook.service';
 import { WebhookWorker } from './workers/webhook.worker';
+import { OutboxService } from './services/outbox.service';
+import { CircuitBreakerService } from './services/circuit-breaker.service';
 import eventRoutes from './routes/event.routes';
 import adminRoutes from './routes/admin.routes';
+import catalogRoutes from './routes/catalog.routes';
+import { SigningKeyController } from './controllers/signing-key.controller';
+import authRoutes from './routes/auth.routes';
+import { AuthService } from './services/auth.service';
 
 // Load environment variables
 dotenv.config();
@@ -61,7 +67,10 @@ app.get('/health', (req, res) => {
 
 // API Routes
 app.use('/api/v1/events', eventRoutes);
+app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1/admin', adminRoutes);
+app.use('/api/v1/catalog', catalogRoutes);
+app.get('/.well-known/jwks.json', SigningKeyController.getJwks);
 
 // 404 handler
 app.use('*', (req, res) => {
@@ -90,18 +99,29 @@ async function startServer() {
   try {
     console.log('🚀 Starting AlgoHire Webhook Relay Server...');
     
+    // Make sure someone can sign in to the admin dashboard
+    await AuthService.ensureBootstrapAdmin();
+
     // Initialize webhook service (Redis + BullMQ)
     await WebhookService.initialize();
     
     // Initialize webhook worker for background processing
     await WebhookWorker.initialize();
+
+    // Relay outbox entries that weren't handed to the queue at ingestion
+    OutboxService.start();
+
+    // Probe endpoints whose circuit breaker is open
+    CircuitBreakerService.start();
     
     // Start the server
     const server = app.listen(PORT, () => {
       console.log(`✅ Server running on port ${PORT}`);
       console.log(`📊 Health check: http://localhost:${PORT}/health`);
       console.log(`📡 Event endpoint: http://localhost:${PORT}/api/v1/events`);
+      console.log(`🔐 Auth endpoint: http://localhost:${PORT}/api/v1/auth`);
       console.log(`🔧 Admin endpoint: http://localhost:${PORT}/api/v1/admin`);
+      console.log(`📚 Catalog endpoint: http://localhost:${PORT}/api/v1/catalog`);
       console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
     });
 
@@ -113,6 +133,8 @@ async function startServer() {
         console.log('✅ HTTP server closed');
         
         try {
+          await OutboxService.stop();
+          await CircuitBreakerService.stop();
           await WebhookService.shutdown();
           console.log('✅ Services shutdown complete');
           process.exit(0);
@@ -0,0 +1,53 @@
+// Admin authentication and role-based access control middleware
+import { Request, Response, NextFunction } from 'express';
+import { AuthService, AdminRole } from '../services/auth.service';
+
+// Resolve the admin user from the Authorization: Bearer header
+export const authenticateAdmin = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const authorization = req.headers['authorization'];
+
+    if (!authorization?.startsWith('Bearer ')) {
+      return res.status(401).json({
+        success: false,
+        error: 'Missing bearer token',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    const admin = await AuthService.resolveSession(authorization.substring(7).trim());
+
+    if (!admin) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid or expired session',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    req.admin = admin;
+    return next();
+  } catch (error) {
+    console.error('Error authenticating admin:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error while authenticating',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+};
+
+// Require the authenticated admin to hold at least the given role
+export const requireRole = (role: AdminRole) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.admin || !AuthService.hasRole(req.admin.role, role)) {
+      return res.status(403).json({
+        success: false,
+        error: `This action requires the ${role} role`,
+        code: 'FORBIDDEN'
+      });
+    }
+
+    return next();
+  };
+};
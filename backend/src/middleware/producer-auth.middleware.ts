@@ -0,0 +1,71 @@
+// Producer authentication middleware for the event ingestion routes
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../config/prisma';
+import { SecurityUtils } from '../utils/security';
+import { EventPatternUtils } from '../utils/event-pattern';
+
+export interface AuthenticatedProducer {
+  id: string;
+  name: string;
+  allowedEventTypes: string[];
+}
+
+// Only touch last_used_at once a minute per key to avoid a write on every event
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+// Check whether a producer is scoped to publish the given event type; scopes are patterns like subscriptions'
+export const canPublishEventType = (producer: AuthenticatedProducer, eventType: string): boolean => {
+  return producer.allowedEventTypes.some(pattern => EventPatternUtils.matches(pattern, eventType));
+};
+
+// Resolve the producer from the Authorization: Bearer or x-api-key header
+export const authenticateProducer = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const authorization = req.headers['authorization'];
+    const apiKey = authorization?.startsWith('Bearer ')
+      ? authorization.substring(7).trim()
+      : (req.headers['x-api-key'] as string | undefined);
+
+    if (!apiKey) {
+      return res.status(401).json({
+        success: false,
+        error: 'Missing producer API key',
+        code: 'MISSING_API_KEY'
+      });
+    }
+
+    const producer = await prisma.producer.findUnique({
+      where: { api_key_hash: SecurityUtils.hashToken(apiKey) }
+    });
+
+    if (!producer || !producer.is_active || producer.revoked_at) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid or revoked producer API key',
+        code: 'INVALID_API_KEY'
+      });
+    }
+
+    if (!producer.last_used_at || Date.now() - producer.last_used_at.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+      prisma.producer.update({
+        where: { id: producer.id },
+        data: { last_used_at: new Date() }
+      }).catch(error => console.error('⚠️ Failed to update producer last_used_at:', error));
+    }
+
+    req.producer = {
+      id: producer.id,
+      name: producer.name,
+      allowedEventTypes: producer.allowed_event_types
+    };
+
+    return next();
+  } catch (error) {
+    console.error('Error authenticating producer:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error while authenticating producer',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+};
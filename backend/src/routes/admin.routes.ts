@@ -1,6 +1,14 @@
 // Admin routes for webhook management
 import { Router } from 'express';
 import { AdminController } from '../controllers/admin.controller';
+import { SchemaController } from '../controllers/schema.controller';
+import { ProducerController } from '../controllers/producer.controller';
+import { UserController } from '../controllers/user.controller';
+import { DeadLetterController } from '../controllers/dead-letter.controller';
+import { SubscriptionSecretController } from '../controllers/subscription-secret.controller';
+import { AuditController } from '../controllers/audit.controller';
+import { SigningKeyController } from '../controllers/signing-key.controller';
+import { authenticateAdmin, requireRole } from '../middleware/admin-auth.middleware';
 
 const router = Router();
 
@@ -21,17 +29,61 @@ const requestLogger = (req: any, res: any, next: any) => {
 // Apply request logging middleware
 router.use(requestLogger);
 
+// Every admin route requires a signed-in admin user
+router.use(authenticateAdmin);
+
 // Subscription management routes
-router.get('/subscriptions', AdminController.getSubscriptions);
-router.post('/subscriptions', AdminController.createSubscription);
-router.put('/subscriptions/:subscriptionId', AdminController.updateSubscription);
-router.delete('/subscriptions/:subscriptionId', AdminController.deleteSubscription);
+router.get('/subscriptions', requireRole('viewer'), AdminController.getSubscriptions);
+router.post('/subscriptions', requireRole('operator'), AdminController.createSubscription);
+router.post('/subscriptions/filter-preview', requireRole('viewer'), AdminController.previewFilter);
+router.post('/subscriptions/transform-preview', requireRole('viewer'), AdminController.previewTransform);
+router.put('/subscriptions/:subscriptionId', requireRole('operator'), AdminController.updateSubscription);
+router.delete('/subscriptions/:subscriptionId', requireRole('admin'), AdminController.deleteSubscription);
+router.post('/subscriptions/:subscriptionId/verify', requireRole('operator'), AdminController.resendVerification);
+router.post('/subscriptions/:subscriptionId/circuit-breaker/reset', requireRole('operator'), AdminController.resetCircuitBreaker);
+router.post('/subscriptions/:subscriptionId/pause', requireRole('operator'), AdminController.pauseSubscription);
+router.post('/subscriptions/:subscriptionId/resume', requireRole('operator'), AdminController.resumeSubscription);
+router.post('/subscriptions/:subscriptionId/rotate-secret', requireRole('operator'), SubscriptionSecretController.rotateSecret);
+router.post('/subscriptions/:subscriptionId/reveal-secret', requireRole('admin'), SubscriptionSecretController.revealSecret);
 
 // Delivery logs and retry routes
-router.get('/delivery-logs', AdminController.getDeliveryLogs);
-router.post('/delivery-logs/:logId/retry', AdminController.retryFailedDelivery);
+router.get('/delivery-logs', requireRole('viewer'), AdminController.getDeliveryLogs);
+router.get('/delivery-logs/:logId', requireRole('viewer'), AdminController.getDeliveryLog);
+router.post('/delivery-logs/:logId/retry', requireRole('operator'), AdminController.retryFailedDelivery);
+
+// Dead-letter queue routes
+router.get('/dead-letters', requireRole('viewer'), DeadLetterController.getDeadLetters);
+router.post('/dead-letters/requeue', requireRole('operator'), DeadLetterController.requeueDeadLetters);
+router.post('/dead-letters/purge', requireRole('admin'), DeadLetterController.purgeDeadLetters);
+router.get('/dead-letters/:deadLetterId', requireRole('viewer'), DeadLetterController.getDeadLetter);
+router.post('/dead-letters/:deadLetterId/requeue', requireRole('operator'), DeadLetterController.requeueDeadLetter);
+router.delete('/dead-letters/:deadLetterId', requireRole('admin'), DeadLetterController.purgeDeadLetter);
+
+// Event schema registry routes
+router.get('/event-types', requireRole('viewer'), SchemaController.getEventTypes);
+router.get('/event-types/:eventType', requireRole('viewer'), SchemaController.getEventType);
+router.put('/event-types/:eventType', requireRole('operator'), SchemaController.updateEventType);
+router.post('/event-types/:eventType/schemas', requireRole('operator'), SchemaController.registerSchema);
+
+// Producer API key routes
+router.get('/producers', requireRole('admin'), ProducerController.getProducers);
+router.post('/producers', requireRole('admin'), ProducerController.createProducer);
+router.post('/producers/:producerId/revoke', requireRole('admin'), ProducerController.revokeProducer);
+
+// Admin user management routes
+router.get('/users', requireRole('admin'), UserController.getUsers);
+router.post('/users', requireRole('admin'), UserController.createUser);
+router.put('/users/:userId', requireRole('admin'), UserController.updateUser);
+router.delete('/users/:userId', requireRole('admin'), UserController.deleteUser);
+
+// Ed25519 signing key routes
+router.get('/signing-keys', requireRole('admin'), SigningKeyController.getSigningKeys);
+router.post('/signing-keys/rotate', requireRole('admin'), SigningKeyController.rotateSigningKey);
+
+// Audit log routes
+router.get('/audit-logs', requireRole('admin'), AuditController.getAuditLogs);
 
 // System statistics
-router.get('/stats', AdminController.getSystemStats);
+router.get('/stats', requireRole('viewer'), AdminController.getSystemStats);
 
 export default router;
@@ -0,0 +1,17 @@
+// Auth routes for admin dashboard sign-in
+import { Router } from 'express';
+import { AuthController } from '../controllers/auth.controller';
+import { authenticateAdmin } from '../middleware/admin-auth.middleware';
+
+const router = Router();
+
+// POST /api/v1/auth/login - Exchange credentials for a session token
+router.post('/login', AuthController.login);
+
+// POST /api/v1/auth/logout - End the current session
+router.post('/logout', authenticateAdmin, AuthController.logout);
+
+// GET /api/v1/auth/me - Get the signed-in admin user
+router.get('/me', authenticateAdmin, AuthController.me);
+
+export default router;
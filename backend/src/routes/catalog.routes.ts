@@ -0,0 +1,17 @@
+// Catalog routes exposing event types and payload schemas to subscribers
+import { Router } from 'express';
+import { SchemaController } from '../controllers/schema.controller';
+import { SigningKeyController } from '../controllers/signing-key.controller';
+
+const router = Router();
+
+// GET /api/v1/catalog/event-types - List event types with their current schema
+router.get('/event-types', SchemaController.getCatalog);
+
+// GET /api/v1/catalog/event-types/:eventType - Get all schema versions of an event type
+router.get('/event-types/:eventType', SchemaController.getCatalogEntry);
+
+// GET /api/v1/catalog/jwks.json - Public keys for verifying ed25519 webhook signatures
+router.get('/jwks.json', SigningKeyController.getJwks);
+
+export default router;
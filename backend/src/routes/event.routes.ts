@@ -1,6 +1,7 @@
 // Event routes for receiving internal events
 import { Router } from 'express';
 import { EventController } from '../controllers/event.controller';
+import { authenticateProducer } from '../middleware/producer-auth.middleware';
 
 const router = Router();
 
@@ -21,9 +22,15 @@ const requestLogger = (req: any, res: any, next: any) => {
 // Apply request logging middleware
 router.use(requestLogger);
 
+// Every event route requires a producer API key
+router.use(authenticateProducer);
+
 // POST /api/v1/events - Receive internal events from AlgoHire modules
 router.post('/', EventController.processEvent);
 
+// POST /api/v1/events/batch - Receive a batch of events with per-item results
+router.post('/batch', EventController.processEventBatch);
+
 // GET /api/v1/events/:eventId - Get event details (for debugging/admin)
 router.get('/:eventId', EventController.getEventById);
 
@@ -0,0 +1,55 @@
+// Audit service for recording sensitive admin actions
+import { Request } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma';
+
+export interface AuditEntry {
+  action: string;
+  targetType: string;
+  targetId: string;
+  metadata?: Prisma.InputJsonValue;
+}
+
+export class AuditService {
+  // Record an action taken by the signed-in admin
+  static async record(req: Request, entry: AuditEntry) {
+    if (!req.admin) {
+      throw new Error('Audited actions require an authenticated admin');
+    }
+
+    const log = await prisma.auditLog.create({
+      data: {
+        action: entry.action,
+        actor_id: req.admin.id,
+        actor_email: req.admin.email,
+        target_type: entry.targetType,
+        target_id: entry.targetId,
+        metadata: entry.metadata,
+        ip_address: req.ip
+      }
+    });
+
+    console.log(`📝 Audit: ${entry.action} on ${entry.targetType} ${entry.targetId} by ${req.admin.email}`);
+    return log;
+  }
+
+  // List audit entries, newest first
+  static async list(filter: { targetType?: string; targetId?: string; action?: string }, page: number, limit: number) {
+    const where: Prisma.AuditLogWhereInput = {};
+    if (filter.targetType) where.target_type = filter.targetType;
+    if (filter.targetId) where.target_id = filter.targetId;
+    if (filter.action) where.action = filter.action;
+
+    const [logs, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { created_at: 'desc' }
+      }),
+      prisma.auditLog.count({ where })
+    ]);
+
+    return { logs, total };
+  }
+}
@@ -0,0 +1,111 @@
+// Auth service for admin users and their session tokens
+import { prisma } from '../config/prisma';
+import { SecurityUtils } from '../utils/security';
+
+export type AdminRole = 'viewer' | 'operator' | 'admin';
+
+export const ADMIN_ROLES: AdminRole[] = ['viewer', 'operator', 'admin'];
+
+// Higher levels inherit every permission of the levels below them
+const ROLE_LEVELS: Record<AdminRole, number> = {
+  viewer: 1,
+  operator: 2,
+  admin: 3
+};
+
+export interface AuthenticatedAdmin {
+  id: string;
+  email: string;
+  name: string | null;
+  role: AdminRole;
+  sessionId: string;
+}
+
+export class AuthService {
+  // Check whether a role grants at least the required role's permissions
+  static hasRole(role: AdminRole, required: AdminRole): boolean {
+    return (ROLE_LEVELS[role] || 0) >= ROLE_LEVELS[required];
+  }
+
+  // Verify credentials and open a new session
+  static async login(email: string, password: string) {
+    const user = await prisma.adminUser.findUnique({
+      where: { email: email.toLowerCase() }
+    });
+
+    if (!user || !user.is_active || !SecurityUtils.verifyPassword(password, user.password_hash)) {
+      return null;
+    }
+
+    const token = SecurityUtils.generateSessionToken();
+    const ttlHours = parseInt(process.env.ADMIN_SESSION_TTL_HOURS || '12');
+    const expiresAt = new Date(Date.now() + ttlHours * 60 * 60 * 1000);
+
+    await prisma.$transaction([
+      prisma.adminSession.create({
+        data: {
+          token_hash: SecurityUtils.hashToken(token),
+          user_id: user.id,
+          expires_at: expiresAt
+        }
+      }),
+      prisma.adminUser.update({
+        where: { id: user.id },
+        data: { last_login_at: new Date() }
+      })
+    ]);
+
+    return { token, expiresAt, user };
+  }
+
+  // Resolve the admin behind a session token
+  static async resolveSession(token: string): Promise<AuthenticatedAdmin | null> {
+    const session = await prisma.adminSession.findUnique({
+      where: { token_hash: SecurityUtils.hashToken(token) },
+      include: { user: true }
+    });
+
+    if (!session || session.expires_at < new Date() || !session.user.is_active) {
+      return null;
+    }
+
+    return {
+      id: session.user.id,
+      email: session.user.email,
+      name: session.user.name,
+      role: session.user.role as AdminRole,
+      sessionId: session.id
+    };
+  }
+
+  // End a session
+  static async logout(sessionId: string) {
+    await prisma.adminSession.deleteMany({ where: { id: sessionId } });
+  }
+
+  // Create the first admin from ADMIN_EMAIL / ADMIN_PASSWORD when no users exist
+  static async ensureBootstrapAdmin() {
+    const email = process.env.ADMIN_EMAIL;
+    const password = process.env.ADMIN_PASSWORD;
+
+    const userCount = await prisma.adminUser.count();
+    if (userCount > 0) {
+      return;
+    }
+
+    if (!email || !password) {
+      console.warn('⚠️ No admin users exist. Set ADMIN_EMAIL and ADMIN_PASSWORD to create the first admin.');
+      return;
+    }
+
+    await prisma.adminUser.create({
+      data: {
+        email: email.toLowerCase(),
+        password_hash: SecurityUtils.hashPassword(password),
+        role: 'admin'
+      }
+    });
+
+    console.log(`✅ Created bootstrap admin user: ${email}`);
+  }
+}
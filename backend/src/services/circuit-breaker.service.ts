@@ -0,0 +1,267 @@
+// Per-subscription circuit breaker: consecutive failures open it, deliveries are held while it's open,
+// and a periodic probe with one held delivery decides when to close it again
+import { Subscription } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { WebhookService } from './webhook.service';
+import { DeliveryBatchService } from './delivery-batch.service';
+
+export const CIRCUIT_STATES = ['closed', 'open', 'half_open'] as const;
+export type CircuitState = typeof CIRCUIT_STATES[number];
+
+export const CIRCUIT_BREAKER_FAILURE_THRESHOLD = parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '5');
+const PROBE_INTERVAL_MS = parseInt(process.env.CIRCUIT_BREAKER_PROBE_INTERVAL_MS || '60000');
+// How long the breaker may stay open before the subscription is disabled
+const DISABLE_AFTER_MS = parseInt(process.env.CIRCUIT_BREAKER_DISABLE_AFTER_HOURS || '24') * 60 * 60 * 1000;
+const CHECK_INTERVAL_MS = 10 * 1000;
+const RELEASE_BATCH_SIZE = 100;
+
+export class CircuitBreakerService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static checking: Promise<void> | null = null;
+
+  // Start the loop that probes open breakers
+  static start() {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      if (!this.checking) {
+        this.checking = this.check().finally(() => {
+          this.checking = null;
+        });
+      }
+    }, CHECK_INTERVAL_MS);
+
+    console.log(`✅ Circuit breaker monitor started (threshold ${CIRCUIT_BREAKER_FAILURE_THRESHOLD} failures, probe every ${PROBE_INTERVAL_MS}ms)`);
+  }
+
+  // Stop the loop and let an in-flight pass finish
+  static async stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.checking) {
+      await this.checking;
+    }
+    console.log('✅ Circuit breaker monitor stopped');
+  }
+
+  // Whether a delivery should be held instead of attempted; a half-open breaker only lets its probe through
+  static isHolding(subscription: Subscription, isProbe: boolean): boolean {
+    return subscription.circuit_state === 'open' || (subscription.circuit_state === 'half_open' && !isProbe);
+  }
+
+  // Park a delivery until the breaker closes
+  static async hold(deliveryLogId: string) {
+    await prisma.deliveryLog.update({
+      where: { id: deliveryLogId },
+      data: { status: 'held', next_retry_at: null }
+    });
+  }
+
+  // The endpoint answered: reset the failure count, and close the breaker if this was the probe
+  static async recordSuccess(subscription: Subscription) {
+    const closed = await prisma.subscription.updateMany({
+      where: { id: subscription.id, circuit_state: { not: 'closed' } },
+      data: {
+        circuit_state: 'closed',
+        consecutive_failures: 0,
+        circuit_opened_at: null,
+        circuit_next_probe_at: null
+      }
+    });
+
+    if (closed.count > 0) {
+      console.log(`🟢 Circuit breaker closed for subscription ${subscription.id}`);
+      await this.releaseHeld(subscription.id);
+      return;
+    }
+
+    await prisma.subscription.updateMany({
+      where: { id: subscription.id, consecutive_failures: { gt: 0 } },
+      data: { consecutive_failures: 0 }
+    });
+  }
+
+  // The endpoint failed transiently: count it, open the breaker at the threshold, and reopen it after a failed probe
+  static async recordFailure(subscription: Subscription, isProbe: boolean) {
+    const { consecutive_failures: failures, circuit_state: state } = await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { consecutive_failures: { increment: 1 } },
+      select: { consecutive_failures: true, circuit_state: true }
+    });
+
+    const nextProbeAt = new Date(Date.now() + PROBE_INTERVAL_MS);
+
+    if (state === 'half_open' && isProbe) {
+      await prisma.subscription.updateMany({
+        where: { id: subscription.id, circuit_state: 'half_open' },
+        data: { circuit_state: 'open', circuit_next_probe_at: nextProbeAt }
+      });
+      console.warn(`🔴 Probe failed, circuit breaker stays open for subscription ${subscription.id}`);
+    } else if (state === 'closed' && failures >= CIRCUIT_BREAKER_FAILURE_THRESHOLD) {
+      const opened = await prisma.subscription.updateMany({
+        where: { id: subscription.id, circuit_state: 'closed' },
+        data: { circuit_state: 'open', circuit_opened_at: new Date(), circuit_next_probe_at: nextProbeAt }
+      });
+      if (opened.count > 0) {
+        console.warn(`🔴 Circuit breaker opened for subscription ${subscription.id} after ${failures} consecutive failures`);
+      }
+    }
+  }
+
+  // Close the breaker by hand (or when a disabled subscription is reactivated) and release what it held
+  static async reset(subscriptionId: string): Promise<number> {
+    await prisma.subscription.update({
+      where: { id: subscriptionId },
+      data: {
+        circuit_state: 'closed',
+        consecutive_failures: 0,
+        circuit_opened_at: null,
+        circuit_next_probe_at: null
+      }
+    });
+
+    console.log(`🟢 Circuit breaker reset for subscription ${subscriptionId}`);
+    return this.releaseHeld(subscriptionId);
+  }
+
+  // Requeue a subscription's held deliveries, oldest first; a batching subscription gets them back in batches.
+  // A paused subscription keeps them until it's resumed
+  static async releaseHeld(subscriptionId: string): Promise<number> {
+    const subscription = await prisma.subscription.findUnique({ where: { id: subscriptionId } });
+    if (!subscription || subscription.paused_at) {
+      return 0;
+    }
+
+    let released = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      // Keyset pagination, since a delivery whose job already ran may be held again and mustn't be picked up twice
+      const held = await prisma.deliveryLog.findMany({
+        where: { subscription_id: subscriptionId, status: 'held' },
+        orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+        take: RELEASE_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        select: { id: true, event_id: true, updated_at: true }
+      });
+
+      if (held.length === 0) {
+        break;
+      }
+      cursor = held[held.length - 1].id;
+
+      // Queue each delivery before marking it pending, so a Redis failure leaves the rest held for the next release
+      for (const delivery of held) {
+        if (subscription.batch_max_size) {
+          await DeliveryBatchService.add(subscription, delivery.id);
+          // Joining the batch touched the row; a batch that already ran has moved it on or cleared batch_id
+          await prisma.deliveryLog.updateMany({
+            where: { id: delivery.id, status: 'held', batch_id: { not: null } },
+            data: { status: 'pending' }
+          });
+        } else {
+          await WebhookService.queueWebhookDelivery(delivery.id, delivery.event_id, subscriptionId, {
+            jobId: WebhookService.getDeliveryJobId(delivery.id, delivery.updated_at)
+          });
+          await prisma.deliveryLog.updateMany({
+            where: { id: delivery.id, status: 'held', updated_at: delivery.updated_at },
+            data: { status: 'pending' }
+          });
+        }
+      }
+      released += held.length;
+    }
+
+    if (released > 0) {
+      console.log(`▶️ Released ${released} held deliveries for subscription ${subscriptionId}`);
+    }
+    return released;
+  }
+
+  // Number of deliveries each subscription's breaker is holding
+  static async getHeldCounts(subscriptionIds: string[]): Promise<Map<string, number>> {
+    const counts = await prisma.deliveryLog.groupBy({
+      by: ['subscription_id'],
+      where: { subscription_id: { in: subscriptionIds }, status: 'held' },
+      _count: { _all: true }
+    });
+    return new Map(counts.map(count => [count.subscription_id, count._count._all]));
+  }
+
+  // One pass: disable subscriptions whose breaker has been open too long, and probe the rest that are due
+  private static async check() {
+    try {
+      const now = new Date();
+      // A half-open breaker whose probe never reported back is probed again; paused subscriptions wait for resume
+      const due = await prisma.subscription.findMany({
+        where: {
+          is_active: true,
+          paused_at: null,
+          circuit_state: { in: ['open', 'half_open'] },
+          circuit_next_probe_at: { lte: now }
+        }
+      });
+
+      for (const subscription of due) {
+        const openedAt = subscription.circuit_opened_at ?? now;
+
+        if (now.getTime() - openedAt.getTime() >= DISABLE_AFTER_MS) {
+          await prisma.subscription.update({
+            where: { id: subscription.id },
+            data: {
+              is_active: false,
+              circuit_next_probe_at: null,
+              deactivated_at: now,
+              deactivation_reason: `Circuit breaker open since ${openedAt.toISOString()}; the endpoint kept failing`
+            }
+          });
+          console.warn(`⛔ Disabled subscription ${subscription.id}: circuit breaker open since ${openedAt.toISOString()}`);
+          continue;
+        }
+
+        await this.probe(subscription);
+      }
+    } catch (error) {
+      console.error('❌ Circuit breaker check failed:', error);
+    }
+  }
+
+  // Send the oldest held delivery as the probe; with nothing held, wait for the next interval
+  private static async probe(subscription: Subscription) {
+    const nextProbeAt = new Date(Date.now() + PROBE_INTERVAL_MS);
+    const delivery = await prisma.deliveryLog.findFirst({
+      where: { subscription_id: subscription.id, status: 'held' },
+      orderBy: { created_at: 'asc' },
+      select: { id: true, event_id: true, updated_at: true }
+    });
+
+    if (!delivery) {
+      await prisma.subscription.update({
+        where: { id: subscription.id },
+        data: { circuit_state: 'open', circuit_next_probe_at: nextProbeAt }
+      });
+      return;
+    }
+
+    // Half-open first so the probe isn't held when it runs. If queuing fails, the breaker is half-open with no probe
+    // and is probed again once circuit_next_probe_at passes
+    await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { circuit_state: 'half_open', circuit_next_probe_at: nextProbeAt }
+    });
+
+    await WebhookService.queueWebhookDelivery(delivery.id, delivery.event_id, subscription.id, {
+      probe: true,
+      jobId: WebhookService.getDeliveryJobId(delivery.id, delivery.updated_at)
+    });
+    await prisma.deliveryLog.updateMany({
+      where: { id: delivery.id, status: 'held', updated_at: delivery.updated_at },
+      data: { status: 'pending' }
+    });
+    console.log(`🟡 Probing subscription ${subscription.id} with delivery ${delivery.id}`);
+  }
+}
@@ -0,0 +1,57 @@
+// HTTPS agents that present a subscription's mTLS client certificate
+import crypto from 'crypto';
+import https from 'https';
+import { Subscription } from '@prisma/client';
+import { SecurityUtils } from '../utils/security';
+import { DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS } from '../utils/retry-policy';
+
+// Long enough for any request still using a replaced agent to finish, whatever the subscription's timeout
+const AGENT_CLOSE_DELAY_MS = Math.max(DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS) + 5000;
+
+export class ClientCertificateService {
+  // One keep-alive agent per subscription; rebuilt when its certificate, key or CA bundle changes
+  private static agents = new Map<string, { agent: https.Agent; settingsKey: string }>();
+
+  // Agent for deliveries to this subscription, or undefined to use the default one
+  static getHttpsAgent(subscription: Subscription): https.Agent | undefined {
+    if (!subscription.tls_client_cert || !subscription.tls_client_key) {
+      this.release(subscription.id);
+      return undefined;
+    }
+
+    const settingsKey = this.getSettingsKey(subscription);
+    const cached = this.agents.get(subscription.id);
+    if (cached && cached.settingsKey === settingsKey) {
+      return cached.agent;
+    }
+
+    this.release(subscription.id);
+
+    // A CA bundle replaces the default trust store, pinning the receiver to that CA
+    const agent = new https.Agent({
+      keepAlive: true,
+      cert: SecurityUtils.decryptSecret(subscription.tls_client_cert),
+      key: SecurityUtils.decryptSecret(subscription.tls_client_key),
+      ...(subscription.tls_ca_bundle && { ca: SecurityUtils.decryptSecret(subscription.tls_ca_bundle) })
+    });
+
+    this.agents.set(subscription.id, { agent, settingsKey });
+    return agent;
+  }
+
+  // Fingerprint of the TLS material; delivery bookkeeping such as failure counts also touches the row
+  private static getSettingsKey(subscription: Subscription): string {
+    return crypto.createHash('sha256')
+      .update(JSON.stringify([subscription.tls_client_cert, subscription.tls_client_key, subscription.tls_ca_bundle]))
+      .digest('hex');
+  }
+
+  // Close a replaced agent once requests already using it have had time to finish
+  private static release(subscriptionId: string) {
+    const cached = this.agents.get(subscriptionId);
+    if (cached) {
+      this.agents.delete(subscriptionId);
+      setTimeout(() => cached.agent.destroy(), AGENT_CLOSE_DELAY_MS).unref();
+    }
+  }
+}
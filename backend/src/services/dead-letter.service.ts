@@ -0,0 +1,127 @@
+// Dead-letter service for deliveries that exhausted their retries
+import { DeadLetter, DeliveryLog, Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { WebhookService } from './webhook.service';
+
+export interface DeadLetterFilter {
+  subscriptionId?: string;
+  eventType?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+// Requeue and purge in chunks so large backlogs don't load at once
+const BULK_CHUNK_SIZE = 500;
+
+export class DeadLetterService {
+  // Build a Prisma filter from admin query parameters
+  static buildWhere(filter: DeadLetterFilter): Prisma.DeadLetterWhereInput {
+    const where: Prisma.DeadLetterWhereInput = {};
+    if (filter.subscriptionId) where.subscription_id = filter.subscriptionId;
+    if (filter.eventType) where.event = { event_type: filter.eventType };
+    if (filter.startDate || filter.endDate) {
+      where.dead_lettered_at = {
+        ...(filter.startDate && { gte: new Date(filter.startDate) }),
+        ...(filter.endDate && { lte: new Date(filter.endDate) })
+      };
+    }
+    return where;
+  }
+
+  // Move an exhausted delivery into the dead-letter store
+  static deadLetterDelivery(
+    deliveryLogId: string,
+    eventId: string,
+    subscriptionId: string,
+    details: { finalError: string; finalStatusCode: number | null; attemptCount: number }
+  ) {
+    return prisma.deadLetter.upsert({
+      where: { delivery_log_id: deliveryLogId },
+      create: {
+        delivery_log_id: deliveryLogId,
+        event_id: eventId,
+        subscription_id: subscriptionId,
+        final_error: details.finalError,
+        final_status_code: details.finalStatusCode,
+        attempt_count: details.attemptCount
+      },
+      update: {
+        final_error: details.finalError,
+        final_status_code: details.finalStatusCode,
+        attempt_count: details.attemptCount,
+        dead_lettered_at: new Date()
+      }
+    });
+  }
+
+  // Requeue matching dead letters for delivery; inactive subscriptions are skipped
+  static async requeue(where: Prisma.DeadLetterWhereInput) {
+    let requeued = 0;
+    let skipped = 0;
+    let cursor: string | undefined;
+
+    while (true) {
+      // Keyset pagination, since requeued rows are deleted as we go
+      const deadLetters = await prisma.deadLetter.findMany({
+        where: cursor ? { AND: [where, { id: { gt: cursor } }] } : where,
+        take: BULK_CHUNK_SIZE,
+        orderBy: { id: 'asc' },
+        include: {
+          subscription: { select: { is_active: true } },
+          delivery_log: { select: { id: true, event_id: true, subscription_id: true, updated_at: true } }
+        }
+      });
+
+      if (deadLetters.length === 0) {
+        break;
+      }
+      cursor = deadLetters[deadLetters.length - 1].id;
+
+      const requeueable = deadLetters.filter(deadLetter => deadLetter.subscription.is_active);
+      skipped += deadLetters.length - requeueable.length;
+
+      for (const deadLetter of requeueable) {
+        await this.requeueDelivery(deadLetter.delivery_log, deadLetter);
+      }
+
+      requeued += requeueable.length;
+    }
+
+    return { requeued, skipped };
+  }
+
+  // Queue an exhausted delivery again, then reopen it and clear its dead letter. Queuing first means a Redis failure
+  // leaves the delivery dead-lettered rather than pending with no job; the reopen is skipped if a run of the new job
+  // already moved the delivery on
+  static async requeueDelivery(
+    deliveryLog: Pick<DeliveryLog, 'id' | 'event_id' | 'subscription_id' | 'updated_at'>,
+    deadLetter: Pick<DeadLetter, 'id' | 'dead_lettered_at'> | null
+  ) {
+    await WebhookService.queueWebhookDelivery(deliveryLog.id, deliveryLog.event_id, deliveryLog.subscription_id, {
+      jobId: WebhookService.getDeliveryJobId(deliveryLog.id, deliveryLog.updated_at)
+    });
+
+    await prisma.$transaction([
+      prisma.deliveryLog.updateMany({
+        where: { id: deliveryLog.id, status: 'exhausted', updated_at: deliveryLog.updated_at },
+        data: {
+          status: 'pending',
+          completed_at: null,
+          next_retry_at: null
+        }
+      }),
+      // A dead letter written again since (the new job ran out of retries) stays
+      ...(deadLetter ? [
+        prisma.deadLetter.deleteMany({
+          where: { id: deadLetter.id, dead_lettered_at: deadLetter.dead_lettered_at }
+        })
+      ] : [])
+    ]);
+  }
+
+  // Permanently remove matching dead letters; their deliveries stay exhausted
+  static async purge(where: Prisma.DeadLetterWhereInput) {
+    const result = await prisma.deadLetter.deleteMany({ where });
+    return { purged: result.count };
+  }
+}
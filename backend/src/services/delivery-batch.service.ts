@@ -0,0 +1,118 @@
+// Batched delivery: events for a batching subscription collect in an open batch, which is sent as one signed
+// JSON array when it fills up or its wait time runs out
+import { Subscription } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { RetryPolicyUtils } from '../utils/retry-policy';
+import { WebhookService } from './webhook.service';
+
+export const MAX_BATCH_SIZE = 1000;
+export const MIN_BATCH_WAIT_MS = 100;
+export const MAX_BATCH_WAIT_MS = 15 * 60 * 1000;
+export const DEFAULT_BATCH_WAIT_MS = 5000;
+
+export class DeliveryBatchService {
+  // Add a pending delivery to the subscription's open batch, opening a new one when there's none with room
+  static async add(subscription: Subscription, deliveryLogId: string) {
+    const maxSize = subscription.batch_max_size as number;
+    const waitMs = subscription.batch_max_wait_ms ?? DEFAULT_BATCH_WAIT_MS;
+
+    const { batchId, opened, full } = await prisma.$transaction(async (tx) => {
+      const open = await tx.deliveryBatch.findFirst({
+        where: { subscription_id: subscription.id, status: 'open' },
+        orderBy: { created_at: 'asc' },
+        select: { id: true }
+      });
+
+      if (open) {
+        // Conditional on the batch still being open with room, so a batch that's just been sent isn't joined
+        const joined = await tx.deliveryBatch.updateMany({
+          where: { id: open.id, status: 'open', event_count: { lt: maxSize } },
+          data: { event_count: { increment: 1 } }
+        });
+
+        if (joined.count > 0) {
+          await tx.deliveryLog.update({ where: { id: deliveryLogId }, data: { batch_id: open.id } });
+          const { event_count: eventCount } = await tx.deliveryBatch.findUniqueOrThrow({
+            where: { id: open.id },
+            select: { event_count: true }
+          });
+          if (eventCount >= maxSize) {
+            await tx.deliveryBatch.update({ where: { id: open.id }, data: { status: 'pending' } });
+          }
+          return { batchId: open.id, opened: false, full: eventCount >= maxSize };
+        }
+      }
+
+      const batch = await tx.deliveryBatch.create({
+        data: {
+          subscription_id: subscription.id,
+          status: maxSize <= 1 ? 'pending' : 'open',
+          event_count: 1,
+          closes_at: new Date(Date.now() + waitMs),
+          delivery_logs: { connect: { id: deliveryLogId } }
+        }
+      });
+      return { batchId: batch.id, opened: true, full: maxSize <= 1 };
+    });
+
+    if (opened) {
+      await this.queueBatch(subscription, batchId, full ? 0 : waitMs);
+    } else if (full) {
+      await this.sendNow(batchId);
+    }
+  }
+
+  // Stop a batch taking new events; called when its job starts, so what's sent is what was collected
+  static async close(batchId: string) {
+    await prisma.deliveryBatch.updateMany({
+      where: { id: batchId, status: 'open' },
+      data: { status: 'pending' }
+    });
+  }
+
+  // Park a batch's deliveries while the subscription is paused or its circuit breaker is open
+  static async hold(batchId: string) {
+    await prisma.$transaction([
+      prisma.deliveryLog.updateMany({
+        where: { batch_id: batchId },
+        data: { status: 'held', next_retry_at: null, batch_id: null }
+      }),
+      prisma.deliveryBatch.update({
+        where: { id: batchId },
+        data: { status: 'held' }
+      })
+    ]);
+  }
+
+  // Queue the job that sends the batch once its wait time is up; retries of that job resend the same batch
+  private static async queueBatch(subscription: Subscription, batchId: string, delayMs: number) {
+    const retryPolicy = RetryPolicyUtils.resolve(subscription.retry_policy);
+
+    await WebhookService.getQueue().add('deliver-batch', {
+      type: 'deliver-batch',
+      batchId,
+      subscriptionId: subscription.id,
+      retryPolicy
+    }, {
+      ...WebhookService.getDeliveryJobOptions(retryPolicy, await WebhookService.enterLane(subscription.id)),
+      jobId: this.getJobId(batchId),
+      delay: delayMs
+    });
+
+    console.log(`📦 Opened batch ${batchId} for subscription ${subscription.id}`);
+  }
+
+  // A full batch doesn't wait for its timer
+  private static async sendNow(batchId: string) {
+    const job = await WebhookService.getQueue().getJob(this.getJobId(batchId));
+    try {
+      await job?.promote();
+    } catch (error) {
+      // The job already left the delayed set, so it's being sent anyway
+    }
+  }
+
+  private static getJobId(batchId: string): string {
+    return `batch-${batchId}`;
+  }
+}
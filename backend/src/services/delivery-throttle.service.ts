@@ -0,0 +1,150 @@
+// Per-subscription request rate and in-flight limits, shared by every worker process through Redis
+import { prisma } from '../config/prisma';
+import { ACTIVE_LANES_KEY, WebhookService } from './webhook.service';
+import { DEFAULT_TIMEOUT_MS } from '../utils/retry-policy';
+
+export const MAX_RATE_LIMIT_PER_SECOND = 1000;
+export const MAX_IN_FLIGHT_LIMIT = 100;
+
+// Worker slots one subscription may occupy at once across all workers while another subscription has deliveries
+// outstanding, so a slow endpoint can't tie them all up. Defaults to half of a worker's concurrency; 0 turns it off
+const FAIR_SHARE_IN_FLIGHT = parseInt(
+  process.env.FAIR_SHARE_MAX_IN_FLIGHT || String(Math.ceil(parseInt(process.env.WEBHOOK_CONCURRENCY || '5') / 2))
+);
+
+// How long a job waits before asking again when every in-flight slot is taken
+const IN_FLIGHT_RETRY_DELAY_MS = 250;
+// A lease outlives the request (including an OAuth2 token fetch and one 401 retry) so a crashed worker frees its slot
+const LEASE_MARGIN_MS = 10 * 1000;
+
+// KEYS: in-flight lease set, counter for the current one-second window, active lanes
+// ARGV: now (ms), lease id, lease expiry (ms), max in flight (0 = none), requests per second (0 = none),
+// fair share (0 = none), subscription id
+// Returns 0 when the request may go ahead, 1 when the rate is exceeded, 2 when every in-flight slot is taken,
+// 3 when the subscription has its fair share of slots and another subscription has deliveries outstanding
+const ACQUIRE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local maxInFlight = tonumber(ARGV[4])
+local ratePerSecond = tonumber(ARGV[5])
+local fairShare = tonumber(ARGV[6])
+local limitedBy = 2
+
+-- The fair share only applies under contention: some other subscription has a lane open
+if fairShare > 0 and (maxInFlight == 0 or fairShare < maxInFlight) then
+  redis.call('ZREMRANGEBYSCORE', KEYS[3], '-inf', now)
+  local others = redis.call('ZCARD', KEYS[3])
+  if redis.call('ZSCORE', KEYS[3], ARGV[7]) then
+    others = others - 1
+  end
+  if others > 0 then
+    maxInFlight = fairShare
+    limitedBy = 3
+  end
+end
+
+if maxInFlight > 0 then
+  redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+  if redis.call('ZSCORE', KEYS[1], ARGV[2]) == false and redis.call('ZCARD', KEYS[1]) >= maxInFlight then
+    return limitedBy
+  end
+end
+
+if ratePerSecond > 0 then
+  local count = redis.call('INCR', KEYS[2])
+  if count == 1 then
+    redis.call('PEXPIRE', KEYS[2], 2000)
+  end
+  if count > ratePerSecond then
+    return 1
+  end
+end
+
+-- With a fair share, requests are counted even while it doesn't apply, so it's accurate as soon as it does
+if maxInFlight > 0 or fairShare > 0 then
+  redis.call('ZADD', KEYS[1], ARGV[3], ARGV[2])
+  redis.call('PEXPIREAT', KEYS[1], ARGV[3])
+end
+return 0
+`;
+
+// Limits are read from a per-process cache, so a job waiting on them doesn't hit the database on every wake-up.
+// A changed limit applies within this long
+const SETTINGS_CACHE_TTL_MS = 5000;
+
+type ThrottleSettings = { ratePerSecond: number; maxInFlight: number; timeoutMs: number; expiresAt: number };
+
+export class DeliveryThrottleService {
+  private static settings = new Map<string, ThrottleSettings>();
+
+  // Take a request slot for this job; returns how long to wait first when the subscription is at its limit
+  // or already has its fair share of worker slots while others wait. leased says whether there's a slot to release
+  static async acquire(subscriptionId: string, leaseId: string): Promise<{ acquired: true; leased: boolean } | { acquired: false; delayMs: number; reason: string }> {
+    const { ratePerSecond, maxInFlight, timeoutMs } = await this.getSettings(subscriptionId);
+    if (!ratePerSecond && !maxInFlight && !FAIR_SHARE_IN_FLIGHT) {
+      return { acquired: true, leased: false };
+    }
+
+    const now = Date.now();
+    const result = Number(await WebhookService.getRedisClient().eval(ACQUIRE_SCRIPT, {
+      keys: [this.inFlightKey(subscriptionId), `throttle:${subscriptionId}:rate:${Math.floor(now / 1000)}`, ACTIVE_LANES_KEY],
+      arguments: [
+        String(now),
+        leaseId,
+        String(now + 2 * timeoutMs + LEASE_MARGIN_MS),
+        String(maxInFlight),
+        String(ratePerSecond),
+        String(FAIR_SHARE_IN_FLIGHT),
+        subscriptionId
+      ]
+    }));
+
+    if (result === 1) {
+      // Wait for the next one-second window, spread a little so waiting jobs don't all land at once
+      return { acquired: false, delayMs: 1000 - (now % 1000) + Math.floor(Math.random() * 100), reason: 'rate limit' };
+    }
+    if (result === 2 || result === 3) {
+      return {
+        acquired: false,
+        delayMs: IN_FLIGHT_RETRY_DELAY_MS + Math.floor(Math.random() * IN_FLIGHT_RETRY_DELAY_MS),
+        reason: result === 2 ? 'in-flight limit' : 'fair share of worker slots'
+      };
+    }
+    return { acquired: true, leased: maxInFlight > 0 || FAIR_SHARE_IN_FLIGHT > 0 };
+  }
+
+  // Give the in-flight slot back once the request has finished
+  static async release(subscriptionId: string, leaseId: string) {
+    try {
+      await WebhookService.getRedisClient().zRem(this.inFlightKey(subscriptionId), leaseId);
+    } catch (error) {
+      // The lease expires on its own, so a failed release only delays the next request
+      console.error(`❌ Failed to release in-flight slot for subscription ${subscriptionId}:`, error);
+    }
+  }
+
+  private static async getSettings(subscriptionId: string): Promise<ThrottleSettings> {
+    const cached = this.settings.get(subscriptionId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    const subscription = await prisma.subscription.findUnique({
+      where: { id: subscriptionId },
+      select: { rate_limit_per_second: true, max_in_flight: true, timeout_ms: true }
+    });
+
+    const entry: ThrottleSettings = {
+      ratePerSecond: subscription?.rate_limit_per_second ?? 0,
+      maxInFlight: subscription?.max_in_flight ?? 0,
+      timeoutMs: subscription?.timeout_ms ?? DEFAULT_TIMEOUT_MS,
+      expiresAt: Date.now() + SETTINGS_CACHE_TTL_MS
+    };
+
+    this.settings.set(subscriptionId, entry);
+    return entry;
+  }
+
+  private static inFlightKey(subscriptionId: string): string {
+    return `throttle:${subscriptionId}:in-flight`;
+  }
+}
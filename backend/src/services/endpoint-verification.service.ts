@@ -0,0 +1,88 @@
+// Endpoint ownership verification: a subscription only receives events after its endpoint echoes a challenge
+import { Subscription } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { SecurityUtils, SignatureScheme } from '../utils/security';
+import { DestinationPolicy } from '../utils/destination-policy';
+import { SubscriptionSecretService } from './subscription-secret.service';
+import { SigningKeyService } from './signing-key.service';
+import { WebhookTransport } from './webhook-transport.service';
+
+export const VERIFICATION_EVENT_TYPE = 'webhook.verification';
+
+// Set REQUIRE_ENDPOINT_VERIFICATION=false to start new subscriptions verified, e.g. for local development
+export const REQUIRE_ENDPOINT_VERIFICATION = process.env.REQUIRE_ENDPOINT_VERIFICATION !== 'false';
+
+const VERIFICATION_TIMEOUT_MS = parseInt(process.env.VERIFICATION_TIMEOUT || '10000');
+
+export class EndpointVerificationService {
+  // Send a fresh challenge and record the outcome; returns the updated subscription
+  static async sendChallenge(subscription: Subscription): Promise<Subscription> {
+    const token = SecurityUtils.generateVerificationToken();
+
+    await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        verification_status: 'pending_verification',
+        verification_token: token,
+        verification_sent_at: new Date(),
+        verification_error: null
+      }
+    });
+
+    // Signed like a delivery, so the endpoint can authenticate the challenge the same way
+    const payload = JSON.stringify({
+      type: VERIFICATION_EVENT_TYPE,
+      challenge: token,
+      subscriptionId: subscription.id
+    });
+    const headers = SecurityUtils.generateWebhookHeaders(
+      payload,
+      subscription.secret_key,
+      VERIFICATION_EVENT_TYPE,
+      subscription.id,
+      {
+        previousSecret: SubscriptionSecretService.getActivePreviousSecret(subscription),
+        scheme: subscription.signature_scheme as SignatureScheme,
+        signingKey: subscription.signature_scheme === 'ed25519' ? await SigningKeyService.getActiveKey() : undefined
+      }
+    );
+
+    let error: string | null = null;
+    try {
+      const response = await WebhookTransport.post(subscription, payload, headers, VERIFICATION_TIMEOUT_MS);
+      if (!this.echoesChallenge(response.data, token)) {
+        error = `Endpoint answered ${response.status} without echoing the challenge`;
+      }
+    } catch (requestError: any) {
+      error = DestinationPolicy.isBlockedError(requestError)
+        ? `Destination blocked: ${requestError.message}`
+        : requestError.response
+          ? `Endpoint answered ${requestError.response.status}`
+          : requestError.message || 'Challenge request failed';
+    }
+
+    // Only settle the challenge we sent; a newer one (e.g. after another URL change) takes precedence
+    await prisma.subscription.updateMany({
+      where: { id: subscription.id, verification_token: token },
+      data: error
+        ? { verification_status: 'verification_failed', verification_error: error }
+        : { verification_status: 'verified', verified_at: new Date(), verification_token: null, verification_error: null }
+    });
+
+    if (error) {
+      console.warn(`⚠️ Endpoint verification failed for subscription ${subscription.id}: ${error}`);
+    } else {
+      console.log(`✅ Endpoint verified for subscription ${subscription.id}`);
+    }
+
+    return prisma.subscription.findUniqueOrThrow({ where: { id: subscription.id } });
+  }
+
+  // The endpoint may answer with the bare token or JSON `{ "challenge": "<token>" }`
+  private static echoesChallenge(body: unknown, token: string): boolean {
+    if (typeof body === 'string') {
+      return body.trim() === token;
+    }
+    return !!body && typeof body === 'object' && (body as Record<string, unknown>).challenge === token;
+  }
+}
@@ -0,0 +1,123 @@
+// Ordered delivery: deliveries sharing a subscription and ordering key go out strictly in sequence.
+// Only the head of each key is sent; later deliveries wait until it succeeds or is dead-lettered.
+import { DeliveryLog, Prisma, Subscription } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { PayloadFilterUtils } from '../utils/payload-filter';
+import { WebhookService } from './webhook.service';
+
+// Statuses of a delivery that may still be sent, and so blocks the ones behind it
+const UNFINISHED_STATUSES = ['pending', 'retrying', 'held', 'waiting'];
+// Ordering key used when the subscription orders everything, or the payload lacks the field
+const DEFAULT_ORDERING_KEY = '';
+const MAX_ORDERING_KEY_LENGTH = 200;
+
+export class OrderedDeliveryService {
+  // Resolve the event's ordering key from the subscription's payload path
+  static getOrderingKey(subscription: Subscription, payload: unknown): string {
+    if (!subscription.ordering_key) {
+      return DEFAULT_ORDERING_KEY;
+    }
+
+    const { found, value } = PayloadFilterUtils.getField(payload, subscription.ordering_key);
+    if (!found || value === null || value === undefined) {
+      return DEFAULT_ORDERING_KEY;
+    }
+    const key = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return key.substring(0, MAX_ORDERING_KEY_LENGTH);
+  }
+
+  // Create the delivery with the next sequence number for its key (the number is only taken if the delivery is created).
+  // A pending delivery with an unfinished one ahead of it starts out waiting instead of being queued
+  static async createDelivery(eventId: string, subscription: Subscription, payload: unknown, status: string): Promise<DeliveryLog> {
+    const orderingKey = this.getOrderingKey(subscription, payload);
+
+    return prisma.$transaction(async (tx) => {
+      const { last_sequence: sequence } = await tx.deliverySequence.upsert({
+        where: { subscription_id_ordering_key: { subscription_id: subscription.id, ordering_key: orderingKey } },
+        create: { subscription_id: subscription.id, ordering_key: orderingKey, last_sequence: 1 },
+        update: { last_sequence: { increment: 1 } }
+      });
+
+      const ahead = status === 'pending' && await this.findUnfinishedBefore(tx, subscription.id, orderingKey, sequence);
+
+      return tx.deliveryLog.create({
+        data: {
+          event_id: eventId,
+          subscription_id: subscription.id,
+          status: ahead ? 'waiting' : status,
+          ordering_key: orderingKey,
+          sequence
+        }
+      });
+    });
+  }
+
+  // Whether the delivery is at the head of its key; if not it's parked as 'waiting' until the head finishes
+  static async claimTurn(deliveryLog: DeliveryLog): Promise<boolean> {
+    return prisma.$transaction(async (tx) => {
+      await this.lockSequence(tx, deliveryLog.subscription_id, deliveryLog.ordering_key as string);
+
+      const ahead = await this.findUnfinishedBefore(tx, deliveryLog.subscription_id, deliveryLog.ordering_key as string, deliveryLog.sequence as number);
+      if (!ahead) {
+        return true;
+      }
+
+      await tx.deliveryLog.update({
+        where: { id: deliveryLog.id },
+        data: { status: 'waiting', next_retry_at: null }
+      });
+      return false;
+    });
+  }
+
+  // The head of a key finished: queue the next waiting delivery unless something earlier is still unfinished.
+  // It's queued before it's marked pending, so a Redis failure leaves it waiting for the next advance of its key
+  static async advance(subscriptionId: string, orderingKey: string) {
+    const next = await prisma.$transaction(async (tx) => {
+      await this.lockSequence(tx, subscriptionId, orderingKey);
+
+      const waiting = await tx.deliveryLog.findFirst({
+        where: { subscription_id: subscriptionId, ordering_key: orderingKey, status: 'waiting' },
+        orderBy: { sequence: 'asc' }
+      });
+      if (!waiting) {
+        return null;
+      }
+
+      const ahead = await this.findUnfinishedBefore(tx, subscriptionId, orderingKey, waiting.sequence as number);
+      return ahead ? null : waiting;
+    });
+
+    if (next) {
+      // Two heads finishing together pick the same delivery; its job id queues it once
+      await WebhookService.queueWebhookDelivery(next.id, next.event_id, subscriptionId, {
+        jobId: WebhookService.getDeliveryJobId(next.id, next.updated_at)
+      });
+      await prisma.deliveryLog.updateMany({
+        where: { id: next.id, status: 'waiting', updated_at: next.updated_at },
+        data: { status: 'pending' }
+      });
+      console.log(`⏭️ Released delivery ${next.id} (sequence ${next.sequence}) for subscription ${subscriptionId}`);
+    }
+  }
+
+  // Take the key's row lock so claiming a turn and advancing can't interleave
+  private static async lockSequence(tx: Prisma.TransactionClient, subscriptionId: string, orderingKey: string) {
+    await tx.deliverySequence.update({
+      where: { subscription_id_ordering_key: { subscription_id: subscriptionId, ordering_key: orderingKey } },
+      data: { last_sequence: { increment: 0 } }
+    });
+  }
+
+  private static findUnfinishedBefore(tx: Prisma.TransactionClient, subscriptionId: string, orderingKey: string, sequence: number) {
+    return tx.deliveryLog.findFirst({
+      where: {
+        subscription_id: subscriptionId,
+        ordering_key: orderingKey,
+        sequence: { lt: sequence },
+        status: { in: UNFINISHED_STATUSES }
+      },
+      select: { id: true }
+    });
+  }
+}
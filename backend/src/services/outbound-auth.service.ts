@@ -0,0 +1,132 @@
+// Outbound authentication headers for webhook requests, with an OAuth2 client-credentials token cache
+import axios from 'axios';
+import crypto from 'crypto';
+import { Subscription } from '@prisma/client';
+import { SecurityUtils } from '../utils/security';
+import { OutboundAuthParams, OutboundAuthType } from '../utils/outbound-auth';
+import { DestinationPolicy, DestinationBlockedError } from '../utils/destination-policy';
+
+// Tokens are refreshed this long before they expire so a request never goes out with a stale one
+const TOKEN_EXPIRY_MARGIN_MS = 30 * 1000;
+const DEFAULT_TOKEN_LIFETIME_MS = 5 * 60 * 1000;
+const TOKEN_REQUEST_TIMEOUT_MS = parseInt(process.env.OAUTH_TOKEN_TIMEOUT || '10000');
+
+type CachedToken = { accessToken: string; expiresAt: number; settingsKey: string };
+
+export class OutboundAuthService {
+  // Per-process cache keyed by subscription; a change to the auth settings invalidates its token
+  private static tokens = new Map<string, CachedToken>();
+  private static pending = new Map<string, Promise<CachedToken>>();
+
+  // Headers that authenticate a request to the subscription's endpoint
+  static async getAuthHeaders(subscription: Subscription): Promise<Record<string, string>> {
+    const type = subscription.auth_type as OutboundAuthType;
+
+    if (type === 'none' || !subscription.auth_secret) {
+      return {};
+    }
+
+    const secret = SecurityUtils.decryptSecret(subscription.auth_secret);
+    const params = (subscription.auth_params ?? {}) as OutboundAuthParams;
+
+    switch (type) {
+      case 'bearer':
+        return { Authorization: `Bearer ${secret}` };
+      case 'basic':
+        return { Authorization: `Basic ${Buffer.from(`${params.username}:${secret}`).toString('base64')}` };
+      case 'oauth2_client_credentials': {
+        const token = await this.getAccessToken(subscription, params, secret);
+        return { Authorization: `Bearer ${token.accessToken}` };
+      }
+      default:
+        throw new Error(`Unknown outbound auth type: ${subscription.auth_type}`);
+    }
+  }
+
+  // Whether a 401 from the endpoint is worth one retry with a freshly fetched token
+  static canRefresh(subscription: Subscription): boolean {
+    return subscription.auth_type === 'oauth2_client_credentials';
+  }
+
+  // Drop a cached token, e.g. after the endpoint rejected it
+  static invalidate(subscriptionId: string) {
+    this.tokens.delete(subscriptionId);
+  }
+
+  // Fingerprint of the settings a token depends on. Not updated_at, which changes with every circuit breaker count
+  private static getSettingsKey(subscription: Subscription): string {
+    return crypto.createHash('sha256')
+      .update(JSON.stringify([subscription.auth_type, subscription.auth_params, subscription.auth_secret]))
+      .digest('hex');
+  }
+
+  private static async getAccessToken(subscription: Subscription, params: OutboundAuthParams, clientSecret: string): Promise<CachedToken> {
+    const settingsKey = this.getSettingsKey(subscription);
+    const cached = this.tokens.get(subscription.id);
+    if (cached && cached.settingsKey === settingsKey && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    // Concurrent deliveries to the same subscription share one token request
+    let request = this.pending.get(subscription.id);
+    if (!request) {
+      request = this.fetchAccessToken(params, clientSecret, settingsKey)
+        .finally(() => this.pending.delete(subscription.id));
+      this.pending.set(subscription.id, request);
+    }
+
+    const token = await request;
+    this.tokens.set(subscription.id, token);
+    return token;
+  }
+
+  private static async fetchAccessToken(params: OutboundAuthParams, clientSecret: string, settingsKey: string): Promise<CachedToken> {
+    const form = new URLSearchParams({ grant_type: 'client_credentials' });
+    if (params.scope) form.set('scope', params.scope);
+    if (params.audience) form.set('audience', params.audience);
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+    if (params.clientAuthMethod === 'post') {
+      form.set('client_id', params.clientId || '');
+      form.set('client_secret', clientSecret);
+    } else {
+      const credentials = `${encodeURIComponent(params.clientId || '')}:${encodeURIComponent(clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    try {
+      // The token URL is subscriber-supplied too, so it goes through the same destination policy
+      const blockedReason = DestinationPolicy.checkUrl(params.tokenUrl as string);
+      if (blockedReason) {
+        throw new DestinationBlockedError(blockedReason);
+      }
+
+      const response = await axios.post(params.tokenUrl as string, form.toString(), {
+        headers,
+        lookup: DestinationPolicy.lookup,
+        beforeRedirect: DestinationPolicy.beforeRedirect,
+        timeout: TOKEN_REQUEST_TIMEOUT_MS
+      });
+
+      const { access_token: accessToken, expires_in: expiresIn } = response.data || {};
+      if (typeof accessToken !== 'string' || accessToken.length === 0) {
+        throw new Error('response has no access_token');
+      }
+
+      const lifetimeMs = typeof expiresIn === 'number' ? expiresIn * 1000 : DEFAULT_TOKEN_LIFETIME_MS;
+      console.log(`🎫 Fetched OAuth2 access token from ${params.tokenUrl} (expires in ${Math.round(lifetimeMs / 1000)}s)`);
+
+      return {
+        accessToken,
+        expiresAt: Date.now() + Math.max(lifetimeMs - TOKEN_EXPIRY_MARGIN_MS, 0),
+        settingsKey
+      };
+    } catch (error) {
+      if (DestinationPolicy.isBlockedError(error)) {
+        throw error;
+      }
+      const status = axios.isAxiosError(error) && error.response ? ` (status ${error.response.status})` : '';
+      throw new Error(`OAuth2 token request to ${params.tokenUrl} failed${status}: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,151 @@
+// Transactional outbox relay that hands stored events to the delivery queue
+import { prisma } from '../config/prisma';
+import { WebhookService } from './webhook.service';
+
+const OUTBOX_POLL_INTERVAL_MS = parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '1000');
+const OUTBOX_BATCH_SIZE = parseInt(process.env.OUTBOX_BATCH_SIZE || '100');
+const OUTBOX_RETENTION_HOURS = parseInt(process.env.OUTBOX_RETENTION_HOURS || '24');
+const OUTBOX_MAX_BACKOFF_MS = 60 * 1000;
+const OUTBOX_PRUNE_INTERVAL_MS = 60 * 1000;
+
+type PendingEntry = {
+  id: string;
+  event_id: string;
+  attempts: number;
+  event: { event_type: string };
+};
+
+export class OutboxService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static relaying: Promise<void> | null = null;
+  private static lastPrunedAt = 0;
+
+  // Start polling for undispatched entries
+  static start() {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      if (!this.relaying) {
+        this.relaying = this.relay().finally(() => {
+          this.relaying = null;
+        });
+      }
+    }, OUTBOX_POLL_INTERVAL_MS);
+
+    console.log(`✅ Outbox relay started (every ${OUTBOX_POLL_INTERVAL_MS}ms)`);
+  }
+
+  // Stop polling and let an in-flight pass finish
+  static async stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.relaying) {
+      await this.relaying;
+    }
+    console.log('✅ Outbox relay stopped');
+  }
+
+  // Publish the entries for events that were just committed, without waiting for the next poll
+  static async dispatch(eventIds: string[]) {
+    const entries = await prisma.outboxEntry.findMany({
+      where: { event_id: { in: eventIds }, dispatched_at: null },
+      include: { event: { select: { event_type: true } } }
+    });
+
+    await this.publish(entries);
+  }
+
+  // Number of entries still waiting to reach the queue
+  static async getPendingCount(): Promise<number> {
+    return prisma.outboxEntry.count({ where: { dispatched_at: null } });
+  }
+
+  // One relay pass: drain everything that is due, then prune old dispatched entries
+  private static async relay() {
+    try {
+      let published: number;
+      do {
+        const entries = await prisma.outboxEntry.findMany({
+          where: {
+            dispatched_at: null,
+            available_at: { lte: new Date() }
+          },
+          orderBy: { created_at: 'asc' },
+          take: OUTBOX_BATCH_SIZE,
+          include: { event: { select: { event_type: true } } }
+        });
+
+        published = await this.publish(entries);
+        if (published > 0) {
+          console.log(`📤 Outbox relay published ${published} events`);
+        }
+      } while (published === OUTBOX_BATCH_SIZE);
+
+      await this.prune();
+    } catch (error) {
+      console.error('❌ Outbox relay pass failed:', error);
+    }
+  }
+
+  // Queue fan-out jobs for the entries and mark them dispatched, or back off on failure
+  private static async publish(entries: PendingEntry[]): Promise<number> {
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    const ids = entries.map(entry => entry.id);
+
+    try {
+      await WebhookService.queueWebhookDeliveriesBulk(entries.map(entry => ({
+        eventId: entry.event_id,
+        eventType: entry.event.event_type
+      })));
+    } catch (error) {
+      const attempts = Math.max(...entries.map(entry => entry.attempts)) + 1;
+      const delay = Math.min(Math.pow(2, attempts - 1) * OUTBOX_POLL_INTERVAL_MS, OUTBOX_MAX_BACKOFF_MS);
+
+      await prisma.outboxEntry.updateMany({
+        where: { id: { in: ids } },
+        data: {
+          attempts: { increment: 1 },
+          last_error: error instanceof Error ? error.message : String(error),
+          available_at: new Date(Date.now() + delay)
+        }
+      });
+      throw error;
+    }
+
+    // A crash before this update republishes the entries; fan-out job ids make that a no-op
+    await prisma.outboxEntry.updateMany({
+      where: { id: { in: ids } },
+      data: {
+        attempts: { increment: 1 },
+        last_error: null,
+        dispatched_at: new Date()
+      }
+    });
+
+    return entries.length;
+  }
+
+  // Delete dispatched entries past the retention window
+  private static async prune() {
+    if (Date.now() - this.lastPrunedAt < OUTBOX_PRUNE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPrunedAt = Date.now();
+
+    const cutoff = new Date(Date.now() - OUTBOX_RETENTION_HOURS * 60 * 60 * 1000);
+    const result = await prisma.outboxEntry.deleteMany({
+      where: { dispatched_at: { lt: cutoff } }
+    });
+
+    if (result.count > 0) {
+      console.log(`🧹 Pruned ${result.count} dispatched outbox entries`);
+    }
+  }
+}
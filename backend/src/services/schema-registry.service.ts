@@ -0,0 +1,164 @@
+// Schema registry service for validating event payloads against registered JSON Schemas
+import Ajv, { ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import { prisma } from '../config/prisma';
+
+export type ValidationMode = 'strict' | 'warn';
+
+export const VALIDATION_MODES: ValidationMode[] = ['strict', 'warn'];
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  mode?: ValidationMode;
+  version?: number;
+  errors?: string[];
+}
+
+// Ingesting a busy event type only writes its last-seen time this often
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+interface CachedSchema {
+  mode: ValidationMode;
+  version?: number;
+  validate?: ValidateFunction;
+  expiresAt: number;
+}
+
+export class SchemaRegistryService {
+  private static cache = new Map<string, CachedSchema>();
+  private static lastSeenWrites = new Map<string, number>();
+
+  // Check that a schema compiles before it is stored
+  static compileSchema(schema: any): { isValid: boolean; error?: string } {
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+      return { isValid: false, error: 'schema must be a JSON Schema object' };
+    }
+
+    try {
+      this.createValidator(schema);
+      return { isValid: true };
+    } catch (error) {
+      return {
+        isValid: false,
+        error: `Invalid JSON Schema: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  // Register a new schema version for an event type
+  static async registerSchema(
+    eventType: string,
+    schema: any,
+    options: { description?: string; validationMode?: ValidationMode } = {}
+  ) {
+    const registered = await prisma.$transaction(async (tx) => {
+      await tx.eventType.upsert({
+        where: { name: eventType },
+        create: {
+          name: eventType,
+          description: options.description,
+          validation_mode: options.validationMode || 'strict'
+        },
+        update: {
+          ...(options.description !== undefined && { description: options.description }),
+          ...(options.validationMode !== undefined && { validation_mode: options.validationMode })
+        }
+      });
+
+      const latest = await tx.eventSchema.findFirst({
+        where: { event_type: eventType },
+        orderBy: { version: 'desc' }
+      });
+
+      return tx.eventSchema.create({
+        data: {
+          event_type: eventType,
+          version: (latest?.version || 0) + 1,
+          schema
+        }
+      });
+    });
+
+    this.invalidate(eventType);
+    return registered;
+  }
+
+  // Validate a payload against the latest schema registered for its event type
+  static async validatePayload(eventType: string, payload: any): Promise<SchemaValidationResult> {
+    const cached = await this.getCachedSchema(eventType);
+
+    // Event types without a registered schema are accepted as-is
+    if (!cached.validate) {
+      return { valid: true };
+    }
+
+    const valid = cached.validate(payload) as boolean;
+    return {
+      valid,
+      mode: cached.mode,
+      version: cached.version,
+      errors: valid ? undefined : (cached.validate.errors || []).map(err =>
+        `${err.instancePath || '/'} ${err.message}`
+      )
+    };
+  }
+
+  // Drop cached validators after the registry changes
+  static invalidate(eventType: string) {
+    this.cache.delete(eventType);
+  }
+
+  // Stamp registered event types as seen so the catalog never has to scan events
+  static async recordSeen(eventTypes: string[]) {
+    const now = Date.now();
+    const due = [...new Set(eventTypes)].filter(name =>
+      now - (this.lastSeenWrites.get(name) ?? 0) >= LAST_SEEN_INTERVAL_MS
+    );
+    if (due.length === 0) return;
+
+    due.forEach(name => this.lastSeenWrites.set(name, now));
+    try {
+      // Unregistered types match no row and stay out of the catalog
+      await prisma.eventType.updateMany({
+        where: { name: { in: due } },
+        data: { last_seen_at: new Date(now) }
+      });
+    } catch (error) {
+      console.error('⚠️ Failed to record last-seen time for event types:', error);
+    }
+  }
+
+  // Each schema gets its own Ajv instance so schemas sharing an $id don't collide
+  private static createValidator(schema: any): ValidateFunction {
+    const ajv = addFormats(new Ajv({ allErrors: true, strict: false }));
+    return ajv.compile(schema);
+  }
+
+  private static async getCachedSchema(eventType: string): Promise<CachedSchema> {
+    const cached = this.cache.get(eventType);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    const type = await prisma.eventType.findUnique({
+      where: { name: eventType },
+      include: {
+        schemas: {
+          orderBy: { version: 'desc' },
+          take: 1
+        }
+      }
+    });
+
+    const latest = type?.schemas[0];
+    const entry: CachedSchema = {
+      mode: (type?.validation_mode as ValidationMode) || 'strict',
+      version: latest?.version,
+      validate: latest ? this.createValidator(latest.schema) : undefined,
+      expiresAt: Date.now() + parseInt(process.env.SCHEMA_CACHE_TTL_MS || '30000')
+    };
+
+    this.cache.set(eventType, entry);
+    return entry;
+  }
+}
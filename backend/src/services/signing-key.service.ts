@@ -0,0 +1,92 @@
+// Ed25519 signing keys for asymmetric webhook signatures, published as a JWKS
+import crypto from 'crypto';
+import { Prisma, SigningKey } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { AsymmetricSigningKey, SecurityUtils } from '../utils/security';
+
+export const DEFAULT_KEY_RETIREMENT_HOURS = parseInt(process.env.SIGNING_KEY_RETIREMENT_HOURS || '168');
+export const MAX_KEY_RETIREMENT_HOURS = 30 * 24;
+
+// Workers reload the active key this often, so a rotation reaches every process within the TTL
+const ACTIVE_KEY_CACHE_TTL_MS = parseInt(process.env.SIGNING_KEY_CACHE_TTL_MS || '60000');
+
+export class SigningKeyService {
+  private static activeKey: { key: AsymmetricSigningKey; loadedAt: number } | null = null;
+
+  // The key new deliveries are signed with; the first one is generated on demand
+  static async getActiveKey(): Promise<AsymmetricSigningKey> {
+    if (this.activeKey && Date.now() - this.activeKey.loadedAt < ACTIVE_KEY_CACHE_TTL_MS) {
+      return this.activeKey.key;
+    }
+
+    const record = await prisma.signingKey.findFirst({
+      where: { status: 'active' },
+      orderBy: { created_at: 'desc' }
+    }) ?? await this.createKey(prisma);
+
+    const key = {
+      kid: record.kid,
+      privateKey: crypto.createPrivateKey(SecurityUtils.decryptSecret(record.private_key))
+    };
+    this.activeKey = { key, loadedAt: Date.now() };
+    return key;
+  }
+
+  // Make a new key active; the old one stays published until it retires so in-flight verifications keep working
+  static async rotate(retireAfterHours: number) {
+    const retiresAt = new Date(Date.now() + retireAfterHours * 60 * 60 * 1000);
+
+    const key = await prisma.$transaction(async (tx) => {
+      await tx.signingKey.updateMany({
+        where: { status: 'active' },
+        data: { status: 'retiring', retires_at: retiresAt }
+      });
+      return this.createKey(tx);
+    });
+
+    this.activeKey = null;
+    return key;
+  }
+
+  // Public keys consumers verify against: the active key plus any not yet retired
+  static async getJwks() {
+    const keys = await this.getPublishedKeys();
+
+    return {
+      keys: keys.map(key => ({
+        ...(key.public_jwk as Prisma.JsonObject),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig'
+      }))
+    };
+  }
+
+  // Published keys, newest first
+  static async getPublishedKeys(): Promise<SigningKey[]> {
+    return prisma.signingKey.findMany({
+      where: {
+        OR: [
+          { status: 'active' },
+          { status: 'retiring', retires_at: { gt: new Date() } }
+        ]
+      },
+      orderBy: { created_at: 'desc' }
+    });
+  }
+
+  private static async createKey(client: Prisma.TransactionClient): Promise<SigningKey> {
+    const { publicJwk, privateKeyPem } = SecurityUtils.generateEd25519KeyPair();
+
+    const key = await client.signingKey.create({
+      data: {
+        kid: `ed25519_${crypto.randomBytes(8).toString('hex')}`,
+        public_jwk: publicJwk as Prisma.InputJsonObject,
+        private_key: SecurityUtils.encryptSecret(privateKeyPem)
+      }
+    });
+
+    console.log(`🔏 Generated Ed25519 signing key: ${key.kid}`);
+    return key;
+  }
+}
@@ -0,0 +1,68 @@
+// Pausing a subscription, e.g. for a partner's maintenance window: events keep matching and are held, not dropped
+import { prisma } from '../config/prisma';
+import { CircuitBreakerService } from './circuit-breaker.service';
+import { DeadLetterService } from './dead-letter.service';
+
+const SKIP_BATCH_SIZE = 100;
+
+export class SubscriptionPauseService {
+  // Start holding the subscription's deliveries; jobs already queued are held when they come up
+  static async pause(subscriptionId: string) {
+    await prisma.subscription.update({
+      where: { id: subscriptionId },
+      data: { paused_at: new Date() }
+    });
+    console.log(`⏸️ Paused subscription ${subscriptionId}`);
+  }
+
+  // Resume delivery and release what was held, oldest first. Deliveries held since before releaseSince aren't sent;
+  // they're dead-lettered so they can still be requeued
+  static async resume(subscriptionId: string, releaseSince?: Date): Promise<{ released: number; skipped: number }> {
+    const { circuit_state: circuitState } = await prisma.subscription.update({
+      where: { id: subscriptionId },
+      data: { paused_at: null },
+      select: { circuit_state: true }
+    });
+
+    const skipped = releaseSince ? await this.skipHeldBefore(subscriptionId, releaseSince) : 0;
+    // The breaker keeps its state across the pause; while it's open its probe releases them once the endpoint answers
+    const released = circuitState === 'closed' ? await CircuitBreakerService.releaseHeld(subscriptionId) : 0;
+
+    console.log(`▶️ Resumed subscription ${subscriptionId}: ${released} deliveries released, ${skipped} skipped`);
+    return { released, skipped };
+  }
+
+  // Dead-letter held deliveries older than the release cap
+  private static async skipHeldBefore(subscriptionId: string, releaseSince: Date): Promise<number> {
+    const finalError = `Held while the subscription was paused and not released on resume (created before ${releaseSince.toISOString()})`;
+    let skipped = 0;
+
+    for (;;) {
+      const held = await prisma.deliveryLog.findMany({
+        where: { subscription_id: subscriptionId, status: 'held', created_at: { lt: releaseSince } },
+        orderBy: { created_at: 'asc' },
+        take: SKIP_BATCH_SIZE,
+        select: { id: true, event_id: true, attempt_count: true }
+      });
+
+      if (held.length === 0) {
+        break;
+      }
+
+      await prisma.$transaction([
+        prisma.deliveryLog.updateMany({
+          where: { id: { in: held.map(delivery => delivery.id) }, status: 'held' },
+          data: { status: 'exhausted', completed_at: new Date(), error_message: finalError }
+        }),
+        ...held.map(delivery => DeadLetterService.deadLetterDelivery(delivery.id, delivery.event_id, subscriptionId, {
+          finalError,
+          finalStatusCode: null,
+          attemptCount: delivery.attempt_count
+        }))
+      ]);
+      skipped += held.length;
+    }
+
+    return skipped;
+  }
+}
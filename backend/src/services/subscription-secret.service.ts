@@ -0,0 +1,43 @@
+// Signing-secret rotation for webhook subscriptions
+import { Subscription } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { SecurityUtils } from '../utils/security';
+
+export const DEFAULT_SECRET_GRACE_HOURS = parseInt(process.env.SECRET_ROTATION_GRACE_HOURS || '24');
+export const MAX_SECRET_GRACE_HOURS = 7 * 24;
+
+export class SubscriptionSecretService {
+  // Issue a new secret; the old one keeps signing until the grace period ends (0 revokes it immediately)
+  static async rotate(subscriptionId: string, gracePeriodHours: number) {
+    const subscription = await prisma.subscription.findUnique({ where: { id: subscriptionId } });
+
+    if (!subscription) {
+      return null;
+    }
+
+    const now = new Date();
+    const previousExpiresAt = gracePeriodHours > 0
+      ? new Date(now.getTime() + gracePeriodHours * 60 * 60 * 1000)
+      : null;
+
+    // Only one previous secret is kept, so rotating again ends the earlier grace period
+    return prisma.subscription.update({
+      where: { id: subscriptionId },
+      data: {
+        secret_key: SecurityUtils.generateSecretKey(),
+        previous_secret_key: previousExpiresAt ? subscription.secret_key : null,
+        previous_secret_expires_at: previousExpiresAt,
+        secret_rotated_at: now,
+        updated_at: now
+      }
+    });
+  }
+
+  // The previous secret while it's still within its grace period
+  static getActivePreviousSecret(subscription: Subscription): string | null {
+    if (!subscription.previous_secret_key || !subscription.previous_secret_expires_at) {
+      return null;
+    }
+    return subscription.previous_secret_expires_at > new Date() ? subscription.previous_secret_key : null;
+  }
+}
@@ -0,0 +1,45 @@
+// HTTP transport for requests to subscriber endpoints: outbound auth, mTLS and the destination policy
+import axios, { AxiosResponse } from 'axios';
+import { Subscription } from '@prisma/client';
+import { OutboundAuthService } from './outbound-auth.service';
+import { ClientCertificateService } from './client-certificate.service';
+import { DestinationPolicy, DestinationBlockedError } from '../utils/destination-policy';
+import { DEFAULT_TIMEOUT_MS } from '../utils/retry-policy';
+
+export class WebhookTransport {
+  // POST to the subscription's endpoint; an OAuth2 token rejected with 401 is refreshed and retried once.
+  // Non-2xx responses reject with an AxiosError; destinations blocked by policy reject with DestinationBlockedError.
+  // The timeout defaults to the subscription's own, then WEBHOOK_TIMEOUT.
+  static async post(
+    subscription: Subscription,
+    payload: string,
+    headers: Record<string, string>,
+    timeout: number = subscription.timeout_ms ?? DEFAULT_TIMEOUT_MS
+  ): Promise<AxiosResponse> {
+    const post = async () => axios.post(subscription.target_url, payload, {
+      headers: { ...headers, ...(await OutboundAuthService.getAuthHeaders(subscription)) },
+      httpsAgent: ClientCertificateService.getHttpsAgent(subscription),
+      lookup: DestinationPolicy.lookup,
+      beforeRedirect: DestinationPolicy.beforeRedirect,
+      timeout,
+      validateStatus: (status) => status >= 200 && status < 300
+    });
+
+    // IP literals never reach the lookup hook, so check the URL itself first
+    const blockedReason = DestinationPolicy.checkUrl(subscription.target_url);
+    if (blockedReason) {
+      throw new DestinationBlockedError(blockedReason);
+    }
+
+    try {
+      return await post();
+    } catch (error) {
+      if (!axios.isAxiosError(error) || error.response?.status !== 401 || !OutboundAuthService.canRefresh(subscription)) {
+        throw error;
+      }
+      console.log(`🎫 ${subscription.target_url} rejected the OAuth2 token, fetching a new one`);
+      OutboundAuthService.invalidate(subscription.id);
+      return post();
+    }
+  }
+}
@@ -1,6 +1,36 @@
 // Webhook service for handling webhook delivery logic
-import { Queue } from 'bullmq';
+import { Queue, PRIORITY_LIMIT } from 'bullmq';
 import { createClient } from 'redis';
+import { prisma } from '../config/prisma';
+import { RetryPolicy, RetryPolicyUtils } from '../utils/retry-policy';
+
+// Backoff type BullMQ hands to the worker's backoffStrategy, which reads the policy from the job data
+export const SUBSCRIPTION_BACKOFF = 'subscription';
+
+// A lane nobody has touched for this long is reset, so a lost job can't leave its subscription deprioritized for good
+const LANE_TTL_MS = 60 * 60 * 1000;
+
+// Subscriptions with deliveries outstanding, scored by when their lane expires; the throttle reads it to tell whether
+// a subscription has worker slots to itself
+export const ACTIVE_LANES_KEY = 'lanes:active';
+
+// KEYS: lane's outstanding job count, active lanes; ARGV: ttl (ms), priority limit, now (ms), subscription id
+// The priority is the lane's outstanding count, so it tracks the current backlog rather than everything ever queued
+const ENTER_LANE_SCRIPT = `
+local outstanding = redis.call('INCR', KEYS[1])
+redis.call('PEXPIRE', KEYS[1], ARGV[1])
+redis.call('ZADD', KEYS[2], tonumber(ARGV[3]) + tonumber(ARGV[1]), ARGV[4])
+return math.min(outstanding, tonumber(ARGV[2]))
+`;
+
+// KEYS: lane's outstanding job count, active lanes; ARGV: subscription id
+const LEAVE_LANE_SCRIPT = `
+if redis.call('DECR', KEYS[1]) <= 0 then
+  redis.call('DEL', KEYS[1])
+  redis.call('ZREM', KEYS[2], ARGV[1])
+end
+return 0
+`;
 
 export class WebhookService {
   private static webhookQueue: Queue;
@@ -51,6 +81,14 @@ export class WebhookService {
     return this.webhookQueue;
   }
 
+  // Get the shared Redis client, e.g. for state that has to hold across worker processes
+  static getRedisClient() {
+    if (!this.isInitialized || !this.redisClient) {
+      throw new Error('WebhookService not initialized. Call initialize() first.');
+    }
+    return this.redisClient;
+  }
+
   // Queue webhook delivery job for all active subscriptions of an event type
   static async queueWebhookDeliveries(eventId: string, eventType: string) {
     try {
@@ -62,6 +100,7 @@ export class WebhookService {
         eventId,
         eventType
       }, {
+        jobId: this.getFanOutJobId(eventId),
         attempts: 1, // This job itself doesn't retry, individual webhook deliveries do
         removeOnComplete: 10,
         removeOnFail: 5,
@@ -74,25 +113,135 @@ export class WebhookService {
     }
   }
 
-  // Queue individual webhook delivery job
-  static async queueWebhookDelivery(eventId: string, subscriptionId: string) {
+  // Queue fan-out jobs for many events in a single round trip
+  static async queueWebhookDeliveriesBulk(events: { eventId: string; eventType: string }[]) {
     try {
       const queue = this.getQueue();
-      
-      await queue.add('deliver-webhook', {
-        type: 'deliver-webhook',
-        eventId,
-        subscriptionId
-      }, {
-        attempts: parseInt(process.env.MAX_RETRY_ATTEMPTS || '3'),
-        backoff: {
-          type: 'exponential',
-          delay: 2000,
+
+      await queue.addBulk(events.map(({ eventId, eventType }) => ({
+        name: 'process-webhook-deliveries',
+        data: {
+          type: 'process-webhook-deliveries',
+          eventId,
+          eventType
         },
-        removeOnComplete: 10,
-        removeOnFail: 5,
+        opts: {
+          jobId: this.getFanOutJobId(eventId),
+          attempts: 1,
+          removeOnComplete: 10,
+          removeOnFail: 5,
+        }
+      })));
+
+      console.log(`📤 Queued webhook deliveries for ${events.length} events`);
+    } catch (error) {
+      console.error('Error queuing bulk webhook deliveries:', error);
+      throw error;
+    }
+  }
+
+  // One fan-out job per event, so the outbox relay can republish without duplicating it
+  private static getFanOutJobId(eventId: string): string {
+    return `fanout-${eventId}`;
+  }
+
+  // Job options for an individual delivery job under the subscription's retry policy, at its lane priority
+  static getDeliveryJobOptions(retryPolicy: RetryPolicy, priority: number) {
+    return {
+      attempts: retryPolicy.maxAttempts,
+      priority,
+      backoff: {
+        type: SUBSCRIPTION_BACKOFF,
+      },
+      removeOnComplete: 10,
+      removeOnFail: 5,
+    };
+  }
+
+  // Take a place in the subscription's lane. The priority is the number of jobs the lane has outstanding, so a
+  // subscription with a backlog queues behind the first few jobs of every other subscription instead of ahead of them
+  static async enterLane(subscriptionId: string): Promise<number> {
+    return Number(await this.getRedisClient().eval(ENTER_LANE_SCRIPT, {
+      keys: [this.getLaneKey(subscriptionId), ACTIVE_LANES_KEY],
+      arguments: [String(LANE_TTL_MS), String(PRIORITY_LIMIT), String(Date.now()), subscriptionId]
+    }));
+  }
+
+  // Give up the place once the job won't run again
+  static async leaveLane(subscriptionId: string) {
+    try {
+      await this.getRedisClient().eval(LEAVE_LANE_SCRIPT, {
+        keys: [this.getLaneKey(subscriptionId), ACTIVE_LANES_KEY],
+        arguments: [subscriptionId]
       });
-      
+    } catch (error) {
+      // The lane expires on its own, so this only deprioritizes the subscription for a while
+      console.error(`❌ Failed to leave delivery lane for subscription ${subscriptionId}:`, error);
+    }
+  }
+
+  private static getLaneKey(subscriptionId: string): string {
+    return `lane:${subscriptionId}:outstanding`;
+  }
+
+  // Job id for reopening a delivery. It's fixed by the row's updated_at, so queuing the same reopen twice (say, after a
+  // partial failure) is a no-op, while a later reopen of the same delivery gets a new job
+  static getDeliveryJobId(deliveryLogId: string, updatedAt: Date): string {
+    return `delivery-${deliveryLogId}-${updatedAt.getTime()}`;
+  }
+
+  // Queue individual webhook delivery job; a probe is let through a half-open circuit breaker
+  static async queueWebhookDelivery(
+    deliveryLogId: string,
+    eventId: string,
+    subscriptionId: string,
+    options: { probe?: boolean; jobId?: string } = {}
+  ) {
+    try {
+      const queue = this.getQueue();
+
+      if (options.jobId && await queue.getJob(options.jobId)) {
+        console.log(`📤 Delivery ${deliveryLogId} is already queued as job ${options.jobId}`);
+        return;
+      }
+
+      // Retry settings are fixed when the job is queued, so in-flight deliveries keep the policy they started with
+      const subscription = await prisma.subscription.findUnique({
+        where: { id: subscriptionId },
+        select: { retry_policy: true }
+      });
+      const retryPolicy = RetryPolicyUtils.resolve(subscription?.retry_policy);
+
+      const priority = await this.enterLane(subscriptionId);
+      let job;
+      try {
+        job = await queue.add('deliver-webhook', {
+          type: 'deliver-webhook',
+          deliveryLogId,
+          eventId,
+          subscriptionId,
+          retryPolicy,
+          ...(options.probe && { probe: true })
+        }, {
+          ...this.getDeliveryJobOptions(retryPolicy, priority),
+          ...(options.jobId && { jobId: options.jobId })
+        });
+      } catch (error) {
+        await this.leaveLane(subscriptionId);
+        throw error;
+      }
+
+      // A taken job id makes the add a no-op that hands back our own copy of the job; the stored one already holds a
+      // place in the lane, so ours is given back
+      if (options.jobId) {
+        const stored = await queue.getJob(options.jobId);
+        if (stored && stored.timestamp !== job.timestamp) {
+          await this.leaveLane(subscriptionId);
+          console.log(`📤 Delivery ${deliveryLogId} was queued concurrently as job ${options.jobId}`);
+          return;
+        }
+      }
+
       console.log(`📤 Queued individual webhook delivery for event ${eventId}, subscription ${subscriptionId}`);
     } catch (error) {
       console.error('Error queuing webhook delivery:', error);
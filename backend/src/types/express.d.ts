@@ -0,0 +1,12 @@
+// Request properties attached by authentication middleware
+import { AuthenticatedProducer } from '../middleware/producer-auth.middleware';
+import { AuthenticatedAdmin } from '../services/auth.service';
+
+declare global {
+  namespace Express {
+    interface Request {
+      producer?: AuthenticatedProducer;
+      admin?: AuthenticatedAdmin;
+    }
+  }
+}
@@ -0,0 +1,95 @@
+// Client certificates for mutual TLS on webhook deliveries
+import crypto from 'crypto';
+
+// Certificates expiring within this many days are flagged in the admin API and dashboard
+export const CERT_EXPIRY_WARNING_DAYS = parseInt(process.env.CLIENT_CERT_EXPIRY_WARNING_DAYS || '30');
+
+export interface ParsedClientCertificate {
+  certificate: string;
+  privateKey: string;
+  caBundle: string | null;
+  subject: string;
+  expiresAt: Date;
+}
+
+const PEM_CERTIFICATE = /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g;
+const MAX_PEM_LENGTH = 64 * 1024;
+
+export class ClientCertificateUtils {
+  // Validate a `clientCertificate` object: the certificate must be current and match its (unencrypted) private key
+  static parse(input: unknown): { certificate?: ParsedClientCertificate; errors: string[] } {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return { errors: ['clientCertificate must be an object with certificate, privateKey and an optional caBundle'] };
+    }
+
+    const { certificate, privateKey, caBundle } = input as Record<string, unknown>;
+    const errors: string[] = [];
+
+    for (const [field, value, required] of [['certificate', certificate, true], ['privateKey', privateKey, true], ['caBundle', caBundle, false]] as const) {
+      if (value === undefined || value === null || value === '') {
+        if (required) errors.push(`clientCertificate.${field} is required`);
+      } else if (typeof value !== 'string' || value.length > MAX_PEM_LENGTH) {
+        errors.push(`clientCertificate.${field} must be a PEM string of at most ${MAX_PEM_LENGTH} characters`);
+      }
+    }
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    let x509: crypto.X509Certificate;
+    let key: crypto.KeyObject;
+    try {
+      x509 = new crypto.X509Certificate(certificate as string);
+    } catch {
+      return { errors: ['clientCertificate.certificate is not a valid PEM certificate'] };
+    }
+    try {
+      key = crypto.createPrivateKey(privateKey as string);
+    } catch {
+      return { errors: ['clientCertificate.privateKey is not a valid unencrypted PEM private key'] };
+    }
+
+    if (!x509.checkPrivateKey(key)) {
+      errors.push('clientCertificate.privateKey does not match the certificate');
+    }
+
+    const expiresAt = new Date(x509.validTo);
+    if (expiresAt <= new Date()) {
+      errors.push(`clientCertificate.certificate expired on ${expiresAt.toISOString()}`);
+    }
+
+    if (typeof caBundle === 'string' && caBundle.length > 0) {
+      const caCertificates = caBundle.match(PEM_CERTIFICATE) || [];
+      if (caCertificates.length === 0) {
+        errors.push('clientCertificate.caBundle must contain at least one PEM certificate');
+      }
+      caCertificates.forEach((pem, i) => {
+        try {
+          new crypto.X509Certificate(pem);
+        } catch {
+          errors.push(`clientCertificate.caBundle certificate ${i + 1} is not valid`);
+        }
+      });
+    }
+
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    return {
+      certificate: {
+        certificate: certificate as string,
+        privateKey: privateKey as string,
+        caBundle: typeof caBundle === 'string' && caBundle.length > 0 ? caBundle : null,
+        subject: x509.subject.replace(/\n/g, ', '),
+        expiresAt
+      },
+      errors
+    };
+  }
+
+  // Whether a certificate is expired or expires within the warning window
+  static isExpiringSoon(expiresAt: Date): boolean {
+    return expiresAt.getTime() - Date.now() < CERT_EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000;
+  }
+}
@@ -0,0 +1,182 @@
+// Destination policy that keeps webhook requests away from internal networks (SSRF protection)
+//
+// Target hosts are checked when a subscription is saved and again on every connection the worker opens,
+// including redirects: DNS is resolved at delivery time and each address must be public unless allowlisted.
+import dns from 'dns';
+import net from 'net';
+
+export class DestinationBlockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DestinationBlockedError';
+  }
+}
+
+// Private, loopback, link-local (including cloud metadata at 169.254.169.254 / fd00:ec2::254) and reserved ranges
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+];
+const BLOCKED_IPV6_RANGES: [string, number][] = [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+];
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata', 'metadata.google.internal'];
+
+type LookupCallback = (error: Error | null, addresses: { address: string; family: 4 | 6 }[]) => void;
+
+export class DestinationPolicy {
+  private static blockList = DestinationPolicy.buildBlockList();
+  private static allowlist = DestinationPolicy.parseAllowlist(process.env.WEBHOOK_DESTINATION_ALLOWLIST || '');
+
+  // Check scheme and host without DNS; returns the reason a URL is blocked, or null
+  static checkUrl(url: string): string | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return 'URL is not valid';
+    }
+
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      return `${parsed.protocol} URLs are not allowed`;
+    }
+
+    return this.checkHostname(parsed.hostname);
+  }
+
+  // Resolve the URL's host and check every address; throws DestinationBlockedError
+  static async assertAllowed(url: string): Promise<void> {
+    const reason = this.checkUrl(url);
+    if (reason) {
+      throw new DestinationBlockedError(reason);
+    }
+
+    const hostname = this.normalizeHostname(new URL(url).hostname);
+    if (net.isIP(hostname) || this.isHostAllowlisted(hostname)) {
+      return;
+    }
+
+    let addresses: dns.LookupAddress[];
+    try {
+      addresses = await dns.promises.lookup(hostname, { all: true });
+    } catch {
+      throw new DestinationBlockedError(`${hostname} could not be resolved`);
+    }
+
+    const blocked = addresses.find(({ address }) => !this.isAddressAllowed(address));
+    if (blocked) {
+      throw new DestinationBlockedError(`${hostname} resolves to ${blocked.address}, which is not a public address`);
+    }
+  }
+
+  // axios `lookup` hook that refuses blocked addresses, so the check applies to the connection actually made
+  static lookup(hostname: string, options: object, callback: LookupCallback) {
+    dns.lookup(hostname, { all: true }, (error, addresses) => {
+      if (error) {
+        return callback(error, []);
+      }
+
+      const allowed = DestinationPolicy.isHostAllowlisted(hostname)
+        ? addresses
+        : addresses.filter(({ address }) => DestinationPolicy.isAddressAllowed(address));
+
+      if (allowed.length === 0) {
+        return callback(new DestinationBlockedError(`${hostname} resolves to ${addresses.map(a => a.address).join(', ')}, which is not a public address`), []);
+      }
+      callback(null, allowed.map(({ address, family }) => ({ address, family: family === 6 ? 6 : 4 })));
+    });
+  }
+
+  // axios `beforeRedirect` hook; IP literals skip the lookup above, so redirect hosts are checked here too
+  static beforeRedirect(options: Record<string, any>) {
+    const reason = DestinationPolicy.checkHostname(String(options.hostname || ''));
+    if (reason) {
+      throw new DestinationBlockedError(`Redirect to ${options.href || options.hostname} blocked: ${reason}`);
+    }
+  }
+
+  // Whether an error came from this policy, directly or wrapped by axios
+  static isBlockedError(error: unknown): error is Error {
+    return error instanceof DestinationBlockedError ||
+      (error instanceof Error && (error as Error & { cause?: unknown }).cause instanceof DestinationBlockedError);
+  }
+
+  private static checkHostname(rawHostname: string): string | null {
+    const hostname = this.normalizeHostname(rawHostname);
+
+    if (this.isHostAllowlisted(hostname)) {
+      return null;
+    }
+    if (BLOCKED_HOSTNAMES.includes(hostname) || hostname.endsWith('.localhost')) {
+      return `${hostname} is an internal hostname`;
+    }
+    if (net.isIP(hostname) && !this.isAddressAllowed(hostname)) {
+      return `${hostname} is not a public address`;
+    }
+    return null;
+  }
+
+  private static isAddressAllowed(address: string): boolean {
+    const family = net.isIPv6(address) ? 'ipv6' : 'ipv4';
+    return this.allowlist.addresses.check(address, family) || !this.blockList.check(address, family);
+  }
+
+  private static isHostAllowlisted(hostname: string): boolean {
+    return this.allowlist.hostnames.some(entry =>
+      entry.startsWith('*.') ? hostname.endsWith(entry.substring(1)) : hostname === entry
+    );
+  }
+
+  // Lowercase, without IPv6 brackets or a trailing dot
+  private static normalizeHostname(hostname: string): string {
+    return hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '');
+  }
+
+  private static buildBlockList(): net.BlockList {
+    const blockList = new net.BlockList();
+    BLOCKED_IPV4_RANGES.forEach(([address, prefix]) => blockList.addSubnet(address, prefix, 'ipv4'));
+    BLOCKED_IPV6_RANGES.forEach(([address, prefix]) => blockList.addSubnet(address, prefix, 'ipv6'));
+    return blockList;
+  }
+
+  // WEBHOOK_DESTINATION_ALLOWLIST: comma-separated hostnames (`hooks.internal`, `*.corp.example`), IPs or CIDRs
+  private static parseAllowlist(value: string): { hostnames: string[]; addresses: net.BlockList } {
+    const hostnames: string[] = [];
+    const addresses = new net.BlockList();
+
+    for (const entry of value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean)) {
+      const [address, prefix] = entry.split('/');
+      const family = net.isIP(address);
+
+      if (family) {
+        const type = family === 6 ? 'ipv6' : 'ipv4';
+        if (prefix !== undefined) {
+          addresses.addSubnet(address, parseInt(prefix), type);
+        } else {
+          addresses.addAddress(address, type);
+        }
+      } else {
+        hostnames.push(entry);
+      }
+    }
+
+    if (value.trim()) {
+      console.log(`🛡️ Webhook destination allowlist: ${value}`);
+    }
+    return { hostnames, addresses };
+  }
+}
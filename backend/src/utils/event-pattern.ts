@@ -0,0 +1,52 @@
+// Glob-style event type patterns used by subscriptions
+import { SecurityUtils } from './security';
+
+// A `*` segment stands for exactly one segment of the event type; `*` on its own matches every type
+export const EVENT_TYPE_WILDCARD = '*';
+
+// Wildcard patterns are limited to this many segments so match lookups stay bounded
+export const MAX_PATTERN_SEGMENTS = 6;
+
+export class EventPatternUtils {
+  // Validate a subscription pattern such as `candidate.created`, `candidate.*`, `*.deleted` or `*`
+  static isValidPattern(pattern: string): boolean {
+    if (pattern === EVENT_TYPE_WILDCARD) {
+      return true;
+    }
+
+    const segments = pattern.split('.');
+    if (!segments.includes(EVENT_TYPE_WILDCARD)) {
+      return SecurityUtils.isValidEventType(pattern);
+    }
+
+    return segments.length <= MAX_PATTERN_SEGMENTS &&
+      segments.every(segment => segment === EVENT_TYPE_WILDCARD || /^[a-zA-Z0-9_-]+$/.test(segment));
+  }
+
+  // Check whether a pattern matches an event type
+  static matches(pattern: string, eventType: string): boolean {
+    if (pattern === EVENT_TYPE_WILDCARD || pattern === eventType) {
+      return true;
+    }
+
+    const patternSegments = pattern.split('.');
+    const typeSegments = eventType.split('.');
+
+    return patternSegments.length === typeSegments.length &&
+      patternSegments.every((segment, i) => segment === EVENT_TYPE_WILDCARD || segment === typeSegments[i]);
+  }
+
+  // Every pattern that would match an event type, so subscriptions can be found with one indexed lookup
+  static getMatchingPatterns(eventType: string): string[] {
+    const patterns = new Set([EVENT_TYPE_WILDCARD, eventType]);
+    const segments = eventType.split('.');
+
+    if (segments.length <= MAX_PATTERN_SEGMENTS) {
+      for (let mask = 1; mask < (1 << segments.length); mask++) {
+        patterns.add(segments.map((segment, i) => (mask & (1 << i) ? EVENT_TYPE_WILDCARD : segment)).join('.'));
+      }
+    }
+
+    return Array.from(patterns);
+  }
+}
@@ -0,0 +1,112 @@
+// Outbound authentication strategies a subscription can apply to its webhook requests
+//
+// Settings are split in two: non-secret params (username, token URL, client ID...) are stored as JSON and shown in
+// the admin API, while the secret (bearer token, password or client secret) is stored encrypted and never returned.
+
+export const OUTBOUND_AUTH_TYPES = ['none', 'bearer', 'basic', 'oauth2_client_credentials'] as const;
+export type OutboundAuthType = typeof OUTBOUND_AUTH_TYPES[number];
+
+// How the client authenticates to the token endpoint: HTTP Basic header or client_id/client_secret form fields
+export const OAUTH2_CLIENT_AUTH_METHODS = ['basic', 'post'] as const;
+export type OAuth2ClientAuthMethod = typeof OAUTH2_CLIENT_AUTH_METHODS[number];
+
+export interface OutboundAuthParams {
+  username?: string;
+  tokenUrl?: string;
+  clientId?: string;
+  scope?: string;
+  audience?: string;
+  clientAuthMethod?: OAuth2ClientAuthMethod;
+}
+
+export interface ParsedOutboundAuth {
+  type: OutboundAuthType;
+  params: OutboundAuthParams | null;
+  secret?: string | null; // undefined keeps the stored secret
+}
+
+// Field in the request body that carries each strategy's secret
+const SECRET_FIELDS: Record<Exclude<OutboundAuthType, 'none'>, string> = {
+  bearer: 'token',
+  basic: 'password',
+  oauth2_client_credentials: 'clientSecret'
+};
+
+const MAX_FIELD_LENGTH = 4096;
+
+export class OutboundAuthUtils {
+  // Validate an `auth` object from the admin API; a missing secret keeps the current one when the type is unchanged
+  static parse(input: unknown, current?: { type: string; hasSecret: boolean }): { auth?: ParsedOutboundAuth; errors: string[] } {
+    if (input === null) {
+      return { auth: { type: 'none', params: null, secret: null }, errors: [] };
+    }
+    if (typeof input !== 'object' || Array.isArray(input)) {
+      return { errors: ['auth must be an object or null'] };
+    }
+
+    const body = input as Record<string, unknown>;
+    const type = body.type;
+
+    if (typeof type !== 'string' || !(OUTBOUND_AUTH_TYPES as readonly string[]).includes(type)) {
+      return { errors: [`auth.type must be one of ${OUTBOUND_AUTH_TYPES.join(', ')}`] };
+    }
+    if (type === 'none') {
+      return { auth: { type: 'none', params: null, secret: null }, errors: [] };
+    }
+
+    const errors: string[] = [];
+    const authType = type as Exclude<OutboundAuthType, 'none'>;
+
+    const readString = (field: string, required: boolean): string | undefined => {
+      const value = body[field];
+      if (value === undefined || value === null || value === '') {
+        if (required) errors.push(`auth.${field} is required for ${authType}`);
+        return undefined;
+      }
+      if (typeof value !== 'string' || value.length > MAX_FIELD_LENGTH) {
+        errors.push(`auth.${field} must be a string of at most ${MAX_FIELD_LENGTH} characters`);
+        return undefined;
+      }
+      return value;
+    };
+
+    const canKeepSecret = current?.type === authType && current.hasSecret;
+    const secret = readString(SECRET_FIELDS[authType], !canKeepSecret);
+    let params: OutboundAuthParams | null = null;
+
+    if (authType === 'basic') {
+      const username = readString('username', true);
+      if (username?.includes(':')) {
+        errors.push('auth.username must not contain ":"');
+      }
+      params = { username };
+    } else if (authType === 'oauth2_client_credentials') {
+      const tokenUrl = readString('tokenUrl', true);
+      if (tokenUrl && !/^https?:\/\//.test(tokenUrl)) {
+        errors.push('auth.tokenUrl must be an http(s) URL');
+      }
+
+      const clientAuthMethod = readString('clientAuthMethod', false) ?? 'basic';
+      if (!(OAUTH2_CLIENT_AUTH_METHODS as readonly string[]).includes(clientAuthMethod)) {
+        errors.push(`auth.clientAuthMethod must be one of ${OAUTH2_CLIENT_AUTH_METHODS.join(', ')}`);
+      }
+
+      params = {
+        tokenUrl,
+        clientId: readString('clientId', true),
+        scope: readString('scope', false),
+        audience: readString('audience', false),
+        clientAuthMethod: clientAuthMethod as OAuth2ClientAuthMethod
+      };
+    }
+
+    if (errors.length > 0) {
+      return { errors };
+    }
+    // Drop unset optional fields so they aren't stored as JSON keys
+    const storedParams = params
+      ? Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined)) as OutboundAuthParams
+      : null;
+    return { auth: { type: authType, params: storedParams, secret }, errors };
+  }
+}
@@ -0,0 +1,150 @@
+// Content-based filter expressions evaluated against event payloads
+//
+// A filter is either a condition or a combination of filters:
+//   { "field": "company.id", "op": "eq", "value": "acme" }
+//   { "and": [ ... ] }  /  { "or": [ ... ] }
+
+export const FILTER_OPERATORS = ['eq', 'ne', 'in', 'exists', 'gt', 'gte', 'lt', 'lte'] as const;
+export type FilterOperator = typeof FILTER_OPERATORS[number];
+
+export type FilterCondition = {
+  field: string;
+  op: FilterOperator;
+  value?: unknown;
+};
+
+export type FilterExpression =
+  | FilterCondition
+  | { and: FilterExpression[] }
+  | { or: FilterExpression[] };
+
+const MAX_FILTER_DEPTH = 8;
+const MAX_FILTER_CONDITIONS = 50;
+const NUMERIC_OPERATORS: FilterOperator[] = ['gt', 'gte', 'lt', 'lte'];
+
+export class PayloadFilterUtils {
+  // Validate a filter expression; returns a list of problems, empty when valid
+  static validate(filter: unknown): string[] {
+    const errors: string[] = [];
+    let conditions = 0;
+
+    const visit = (node: unknown, path: string, depth: number) => {
+      if (depth > MAX_FILTER_DEPTH) {
+        errors.push(`${path}: filter is nested deeper than ${MAX_FILTER_DEPTH} levels`);
+        return;
+      }
+
+      if (!node || typeof node !== 'object' || Array.isArray(node)) {
+        errors.push(`${path}: must be an object`);
+        return;
+      }
+
+      const keys = Object.keys(node);
+      const record = node as Record<string, unknown>;
+
+      if (keys.length === 1 && (keys[0] === 'and' || keys[0] === 'or')) {
+        const children = record[keys[0]];
+        if (!Array.isArray(children) || children.length === 0) {
+          errors.push(`${path}.${keys[0]}: must be a non-empty array`);
+          return;
+        }
+        children.forEach((child, i) => visit(child, `${path}.${keys[0]}[${i}]`, depth + 1));
+        return;
+      }
+
+      if (++conditions > MAX_FILTER_CONDITIONS) {
+        if (conditions === MAX_FILTER_CONDITIONS + 1) {
+          errors.push(`filter has more than ${MAX_FILTER_CONDITIONS} conditions`);
+        }
+        return;
+      }
+
+      const unknownKeys = keys.filter(key => !['field', 'op', 'value'].includes(key));
+      if (unknownKeys.length > 0) {
+        errors.push(`${path}: unknown keys ${unknownKeys.join(', ')} (expected field, op and value, or a single and/or key)`);
+        return;
+      }
+
+      const { field, op, value } = record;
+
+      if (typeof field !== 'string' || field.length === 0 || field.split('.').some(segment => segment.length === 0)) {
+        errors.push(`${path}.field: must be a dot-separated path such as company.id`);
+      }
+
+      if (typeof op !== 'string' || !(FILTER_OPERATORS as readonly string[]).includes(op)) {
+        errors.push(`${path}.op: must be one of ${FILTER_OPERATORS.join(', ')}`);
+        return;
+      }
+
+      if (op === 'exists') {
+        if (value !== undefined && typeof value !== 'boolean') {
+          errors.push(`${path}.value: must be a boolean for exists`);
+        }
+      } else if (op === 'in') {
+        if (!Array.isArray(value) || value.length === 0 || !value.every(PayloadFilterUtils.isScalar)) {
+          errors.push(`${path}.value: must be a non-empty array of strings, numbers, booleans or null for in`);
+        }
+      } else if (NUMERIC_OPERATORS.includes(op as FilterOperator)) {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          errors.push(`${path}.value: must be a number for ${op}`);
+        }
+      } else if (!PayloadFilterUtils.isScalar(value)) {
+        errors.push(`${path}.value: must be a string, number, boolean or null for ${op}`);
+      }
+    };
+
+    visit(filter, 'filter', 1);
+    return errors;
+  }
+
+  // Evaluate a validated filter against a payload
+  static evaluate(filter: FilterExpression, payload: unknown): boolean {
+    if ('and' in filter) {
+      return filter.and.every(child => this.evaluate(child, payload));
+    }
+    if ('or' in filter) {
+      return filter.or.some(child => this.evaluate(child, payload));
+    }
+
+    const { found, value: actual } = this.getField(payload, filter.field);
+
+    switch (filter.op) {
+      case 'exists':
+        return found === (filter.value ?? true);
+      case 'eq':
+        return found && actual === filter.value;
+      case 'ne':
+        return !found || actual !== filter.value;
+      case 'in':
+        return found && (filter.value as unknown[]).includes(actual);
+      case 'gt':
+        return typeof actual === 'number' && actual > (filter.value as number);
+      case 'gte':
+        return typeof actual === 'number' && actual >= (filter.value as number);
+      case 'lt':
+        return typeof actual === 'number' && actual < (filter.value as number);
+      case 'lte':
+        return typeof actual === 'number' && actual <= (filter.value as number);
+      default:
+        return false;
+    }
+  }
+
+  // Resolve a dot-separated path; numeric segments index into arrays
+  static getField(payload: unknown, field: string): { found: boolean; value?: unknown } {
+    let current: unknown = payload;
+
+    for (const segment of field.split('.')) {
+      if (current === null || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, segment)) {
+        return { found: false };
+      }
+      current = (current as Record<string, unknown>)[segment];
+    }
+
+    return { found: true, value: current };
+  }
+
+  private static isScalar(value: unknown): boolean {
+    return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+  }
+}
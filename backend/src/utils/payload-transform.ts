@@ -0,0 +1,158 @@
+// Payload transformation templates that reshape the delivery envelope per subscription
+//
+// A template is plain JSON. Strings may contain {{ path }} placeholders resolved against the
+// envelope (id, eventType, payload, receivedAt, idempotencyKey); a string that is only a
+// placeholder keeps the value's type. `{{ payload.name ?? "Unknown" }}` supplies a JSON fallback
+// for missing values. Templates are data, not code, so rendering one can't execute anything.
+import { Event } from '@prisma/client';
+
+export const TRANSFORM_ERROR_MODES = ['fail', 'send_original'] as const;
+export type TransformErrorMode = typeof TRANSFORM_ERROR_MODES[number];
+
+export interface DeliveryEnvelope {
+  id: string;
+  eventType: string;
+  payload: unknown;
+  receivedAt: string;
+  idempotencyKey: string;
+}
+
+export class TransformError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransformError';
+  }
+}
+
+const ENVELOPE_FIELDS = ['id', 'eventType', 'payload', 'receivedAt', 'idempotencyKey'];
+const PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const EXACT_PLACEHOLDER = /^\{\{\s*([^{}]+?)\s*\}\}$/;
+const PATH = /^[a-zA-Z0-9_-]+(\.[a-zA-Z0-9_-]+)*$/;
+const MAX_TEMPLATE_BYTES = 16 * 1024;
+const MAX_TEMPLATE_DEPTH = 10;
+const MAX_OUTPUT_BYTES = parseInt(process.env.MAX_TRANSFORM_OUTPUT_BYTES || String(1024 * 1024));
+
+type Placeholder = { path: string; fallback?: { value: unknown } };
+
+export class PayloadTransformUtils {
+  // The standard body every subscription receives when it has no transform
+  static buildEnvelope(event: Event): DeliveryEnvelope {
+    return {
+      id: event.id,
+      eventType: event.event_type,
+      payload: event.payload,
+      receivedAt: event.received_at.toISOString(),
+      idempotencyKey: event.idempotency_key
+    };
+  }
+
+  // Validate a template; returns a list of problems, empty when valid
+  static validate(template: unknown): string[] {
+    const errors: string[] = [];
+
+    if (template === undefined) {
+      return ['transform must be a JSON value'];
+    }
+    if (JSON.stringify(template).length > MAX_TEMPLATE_BYTES) {
+      return [`transform is larger than ${MAX_TEMPLATE_BYTES} bytes`];
+    }
+
+    const visit = (node: unknown, path: string, depth: number) => {
+      if (depth > MAX_TEMPLATE_DEPTH) {
+        errors.push(`${path}: nested deeper than ${MAX_TEMPLATE_DEPTH} levels`);
+        return;
+      }
+
+      if (typeof node === 'string') {
+        for (const match of node.matchAll(PLACEHOLDER)) {
+          try {
+            this.parsePlaceholder(match[1]);
+          } catch (error) {
+            errors.push(`${path}: ${(error as Error).message}`);
+          }
+        }
+      } else if (Array.isArray(node)) {
+        node.forEach((child, i) => visit(child, `${path}[${i}]`, depth + 1));
+      } else if (node !== null && typeof node === 'object') {
+        Object.entries(node).forEach(([key, child]) => visit(child, `${path}.${key}`, depth + 1));
+      }
+    };
+
+    visit(template, 'transform', 1);
+    return errors;
+  }
+
+  // Render a template against an envelope; throws TransformError when it can't be rendered
+  static render(template: unknown, envelope: DeliveryEnvelope): unknown {
+    const render = (node: unknown): unknown => {
+      if (typeof node === 'string') {
+        const exact = node.match(EXACT_PLACEHOLDER);
+        if (exact) {
+          return this.resolve(this.parsePlaceholder(exact[1]), envelope);
+        }
+        return node.replace(PLACEHOLDER, (_, expression: string) =>
+          this.stringify(this.resolve(this.parsePlaceholder(expression), envelope))
+        );
+      }
+      if (Array.isArray(node)) {
+        return node.map(render);
+      }
+      if (node !== null && typeof node === 'object') {
+        return Object.fromEntries(Object.entries(node).map(([key, child]) => [key, render(child)]));
+      }
+      return node;
+    };
+
+    const output = render(template);
+
+    if (Buffer.byteLength(JSON.stringify(output) ?? '') > MAX_OUTPUT_BYTES) {
+      throw new TransformError(`Transformed body is larger than ${MAX_OUTPUT_BYTES} bytes`);
+    }
+    return output;
+  }
+
+  // Split `path ?? fallback` and check both halves
+  private static parsePlaceholder(expression: string): Placeholder {
+    const [rawPath, ...rest] = expression.split('??');
+    const path = rawPath.trim();
+
+    if (!PATH.test(path)) {
+      throw new TransformError(`Invalid placeholder path "${path}"`);
+    }
+    if (!ENVELOPE_FIELDS.includes(path.split('.')[0])) {
+      throw new TransformError(`Placeholder "${path}" must start with one of ${ENVELOPE_FIELDS.join(', ')}`);
+    }
+    if (rest.length === 0) {
+      return { path };
+    }
+
+    try {
+      return { path, fallback: { value: JSON.parse(rest.join('??').trim()) } };
+    } catch {
+      throw new TransformError(`Fallback for "${path}" must be a JSON literal, e.g. "Unknown" or 0`);
+    }
+  }
+
+  private static resolve({ path, fallback }: Placeholder, envelope: DeliveryEnvelope): unknown {
+    let current: unknown = envelope;
+
+    for (const segment of path.split('.')) {
+      if (current === null || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, segment)) {
+        if (fallback) {
+          return fallback.value;
+        }
+        throw new TransformError(`No value for {{ ${path} }} in event ${envelope.id}`);
+      }
+      current = (current as Record<string, unknown>)[segment];
+    }
+
+    return current;
+  }
+
+  private static stringify(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'string') return value;
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  }
+}
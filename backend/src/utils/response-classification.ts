@@ -0,0 +1,60 @@
+// Classification of delivery outcomes: whether a failed attempt is worth retrying, and when
+import { UnrecoverableError } from 'bullmq';
+import { MAX_DELAY_MS } from './retry-policy';
+
+export const DELIVERY_CLASSIFICATIONS = ['success', 'retryable', 'non_retryable', 'gone'] as const;
+export type DeliveryClassification = typeof DELIVERY_CLASSIFICATIONS[number];
+
+// Client errors that describe a transient condition rather than a problem with the request
+const RETRYABLE_CLIENT_STATUSES = [408, 429];
+// Statuses whose Retry-After header takes precedence over the subscription's backoff
+const RETRY_AFTER_STATUSES = [429, 503];
+
+export class ResponseClassifier {
+  // Classify a failed attempt: network errors, timeouts, 5xx, 408 and 429 are retryable, 410 means the endpoint is
+  // gone, and other 4xx responses won't succeed by resending the same request
+  static classify(error: any): DeliveryClassification {
+    if (error instanceof UnrecoverableError) {
+      return 'non_retryable';
+    }
+
+    const status: number | undefined = error?.response?.status;
+    if (!status) {
+      return 'retryable';
+    }
+    if (status === 410) {
+      return 'gone';
+    }
+    if (status >= 400 && status < 500 && !RETRYABLE_CLIENT_STATUSES.includes(status)) {
+      return 'non_retryable';
+    }
+    return 'retryable';
+  }
+
+  // Delay requested by a 429 or 503 Retry-After header (delta-seconds or HTTP date), capped at the longest backoff delay
+  static getRetryAfterMs(error: any): number | undefined {
+    const status: number | undefined = error?.response?.status;
+    if (!status || !RETRY_AFTER_STATUSES.includes(status)) {
+      return undefined;
+    }
+
+    const header = error.response.headers?.['retry-after'];
+    const value = String(Array.isArray(header) ? header[0] : header ?? '').trim();
+    if (!value) {
+      return undefined;
+    }
+
+    let delayMs: number;
+    if (/^\d+$/.test(value)) {
+      delayMs = parseInt(value) * 1000;
+    } else {
+      const date = Date.parse(value);
+      if (Number.isNaN(date)) {
+        return undefined;
+      }
+      delayMs = date - Date.now();
+    }
+
+    return Math.min(Math.max(delayMs, 0), MAX_DELAY_MS);
+  }
+}
@@ -0,0 +1,131 @@
+// Per-subscription retry policy: attempt limit, backoff schedule, retry window and request timeout
+//
+// Subscriptions without a policy use the global defaults (MAX_RETRY_ATTEMPTS, exponential backoff from 2s and
+// WEBHOOK_TIMEOUT). A stored policy is always complete, so later changes to those defaults don't alter it.
+
+export const BACKOFF_STRATEGIES = ['exponential', 'fixed', 'schedule'] as const;
+export type BackoffStrategy = typeof BACKOFF_STRATEGIES[number];
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  backoff: BackoffStrategy;
+  delayMs: number; // First delay for exponential backoff, every delay for fixed
+  maxDelayMs?: number; // Cap on exponential delays; MAX_DELAY_MS when unset
+  scheduleMs?: number[]; // Delay before each retry for `schedule`; the last one repeats
+  maxRetryWindowMs?: number; // No retry is scheduled later than this after the delivery was queued
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: parseInt(process.env.MAX_RETRY_ATTEMPTS || '3'),
+  backoff: 'exponential',
+  delayMs: 2000
+};
+
+export const DEFAULT_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT || '30000');
+
+export const MAX_ATTEMPTS = 100;
+export const MAX_DELAY_MS = 24 * 60 * 60 * 1000;
+export const MAX_RETRY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+export const MIN_TIMEOUT_MS = 1000;
+export const MAX_TIMEOUT_MS = 120 * 1000;
+const MAX_SCHEDULE_LENGTH = 50;
+
+export class RetryPolicyUtils {
+  // Validate a `retryPolicy` object from the admin API; null restores the defaults, missing fields take them
+  static parse(input: unknown): { policy?: RetryPolicy | null; errors: string[] } {
+    if (input === null) {
+      return { policy: null, errors: [] };
+    }
+    if (typeof input !== 'object' || Array.isArray(input)) {
+      return { errors: ['retryPolicy must be an object or null'] };
+    }
+
+    const body = input as Record<string, unknown>;
+    const errors: string[] = [];
+
+    const readInteger = (field: string, min: number, max: number): number | undefined => {
+      const value = body[field];
+      if (value === undefined || value === null) {
+        return undefined;
+      }
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+        errors.push(`retryPolicy.${field} must be an integer between ${min} and ${max}`);
+        return undefined;
+      }
+      return value;
+    };
+
+    const backoff = body.backoff ?? DEFAULT_RETRY_POLICY.backoff;
+    if (typeof backoff !== 'string' || !(BACKOFF_STRATEGIES as readonly string[]).includes(backoff)) {
+      errors.push(`retryPolicy.backoff must be one of ${BACKOFF_STRATEGIES.join(', ')}`);
+    }
+
+    const policy: RetryPolicy = {
+      maxAttempts: readInteger('maxAttempts', 1, MAX_ATTEMPTS) ?? DEFAULT_RETRY_POLICY.maxAttempts,
+      backoff: backoff as BackoffStrategy,
+      delayMs: readInteger('delayMs', 0, MAX_DELAY_MS) ?? DEFAULT_RETRY_POLICY.delayMs,
+      maxDelayMs: readInteger('maxDelayMs', 0, MAX_DELAY_MS),
+      maxRetryWindowMs: readInteger('maxRetryWindowMs', 1000, MAX_RETRY_WINDOW_MS)
+    };
+
+    if (backoff === 'schedule') {
+      const schedule = body.scheduleMs;
+      if (!Array.isArray(schedule) || schedule.length === 0 || schedule.length > MAX_SCHEDULE_LENGTH) {
+        errors.push(`retryPolicy.scheduleMs must be a list of 1 to ${MAX_SCHEDULE_LENGTH} delays for the schedule backoff`);
+      } else if (schedule.some(delay => typeof delay !== 'number' || !Number.isInteger(delay) || delay < 0 || delay > MAX_DELAY_MS)) {
+        errors.push(`retryPolicy.scheduleMs delays must be integers between 0 and ${MAX_DELAY_MS}`);
+      } else {
+        policy.scheduleMs = schedule;
+      }
+    } else if (body.scheduleMs !== undefined && body.scheduleMs !== null) {
+      errors.push('retryPolicy.scheduleMs only applies to the schedule backoff');
+    }
+
+    if (errors.length > 0) {
+      return { errors };
+    }
+    // Drop unset optional fields so they aren't stored as JSON keys
+    return {
+      policy: Object.fromEntries(Object.entries(policy).filter(([, value]) => value !== undefined)) as RetryPolicy,
+      errors
+    };
+  }
+
+  // Validate a `timeoutMs` value; null restores the default
+  static parseTimeout(input: unknown): { timeoutMs?: number | null; error?: string } {
+    if (input === null) {
+      return { timeoutMs: null };
+    }
+    if (typeof input !== 'number' || !Number.isInteger(input) || input < MIN_TIMEOUT_MS || input > MAX_TIMEOUT_MS) {
+      return { error: `timeoutMs must be an integer between ${MIN_TIMEOUT_MS} and ${MAX_TIMEOUT_MS}` };
+    }
+    return { timeoutMs: input };
+  }
+
+  // The policy that applies to a subscription's stored value
+  static resolve(stored: unknown): RetryPolicy {
+    return stored && typeof stored === 'object' ? stored as RetryPolicy : DEFAULT_RETRY_POLICY;
+  }
+
+  // Delay before the retry that follows attempt number `attemptsMade`
+  static getDelay(policy: RetryPolicy, attemptsMade: number): number {
+    switch (policy.backoff) {
+      case 'fixed':
+        return policy.delayMs;
+      case 'schedule': {
+        const schedule = policy.scheduleMs?.length ? policy.scheduleMs : [policy.delayMs];
+        return schedule[Math.min(attemptsMade, schedule.length) - 1];
+      }
+      default: {
+        // Without a cap of its own the delay still stops at MAX_DELAY_MS, or late attempts would wait for years
+        const delay = Math.round(Math.pow(2, attemptsMade - 1) * policy.delayMs);
+        return Math.min(delay, policy.maxDelayMs ?? MAX_DELAY_MS);
+      }
+    }
+  }
+
+  // Whether a retry at `retryAt` still falls inside the policy's window for a delivery queued at `queuedAt`
+  static isWithinWindow(policy: RetryPolicy, queuedAt: number, retryAt: number): boolean {
+    return policy.maxRetryWindowMs === undefined || retryAt <= queuedAt + policy.maxRetryWindowMs;
+  }
+}
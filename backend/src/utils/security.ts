@@ -1,6 +1,28 @@
-// Security utilities for HMAC signature generation and validation
+// Security utilities for HMAC and Ed25519 signature generation and validation
 import crypto from 'crypto';
 
+// 'none' sends deliveries unsigned; it's only allowed with outbound auth, which authenticates them instead
+export type SignatureScheme = 'legacy' | 'standard_webhooks' | 'ed25519' | 'none';
+
+export const SIGNATURE_SCHEMES: SignatureScheme[] = ['legacy', 'standard_webhooks', 'ed25519', 'none'];
+
+// Relay-held private key used by the ed25519 scheme; `kid` identifies its public half in the JWKS
+export interface AsymmetricSigningKey {
+  kid: string;
+  privateKey: crypto.KeyObject;
+}
+
+export interface WebhookHeaderOptions {
+  previousSecret?: string | null;
+  scheme?: SignatureScheme;
+  messageId?: string; // Stable across retries of the same delivery
+  signingKey?: AsymmetricSigningKey; // Required for the ed25519 scheme
+  sequence?: number; // Ordered subscriptions: position within the ordering key, for gap detection
+  orderingKey?: string;
+}
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
 export class SecurityUtils {
   // Generate HMAC signature for webhook payload
   static generateHmacSignature(payload: string, secret: string): string {
@@ -16,11 +38,10 @@ export class SecurityUtils {
     signature: string, 
     secret: string
   ): boolean {
-    const expectedSignature = this.generateHmacSignature(payload, secret);
-    return crypto.timingSafeEqual(
-      Buffer.from(signature, 'hex'),
-      Buffer.from(expectedSignature, 'hex')
-    );
+    const expected = Buffer.from(this.generateHmacSignature(payload, secret), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    // Hex decoding stops at the first bad character, and timingSafeEqual throws on buffers of different lengths
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
   }
 
   // Generate webhook signature header value
@@ -29,18 +50,21 @@ export class SecurityUtils {
     return `sha256=${signature}`;
   }
 
-  // Verify webhook signature from header
+  // Verify webhook signature from header; during a secret rotation the header lists one signature per secret
   static verifyWebhookSignature(
     payload: string,
     signatureHeader: string,
     secret: string
   ): boolean {
-    if (!signatureHeader.startsWith('sha256=')) {
-      return false;
-    }
-    
-    const signature = signatureHeader.substring(7); // Remove 'sha256=' prefix
-    return this.verifyHmacSignature(payload, signature, secret);
+    const expectedSignature = this.generateHmacSignature(payload, secret);
+
+    return signatureHeader.split(',').some(value => {
+      const candidate = value.trim();
+      if (!candidate.startsWith('sha256=') || candidate.length !== expectedSignature.length + 7) {
+        return false;
+      }
+      return this.verifyHmacSignature(payload, candidate.substring(7), secret); // Remove 'sha256=' prefix
+    });
   }
 
   // Generate random secret key for webhook subscriptions
@@ -48,12 +72,51 @@ export class SecurityUtils {
     return crypto.randomBytes(32).toString('hex');
   }
 
+  // Generate API key for event producers
+  static generateApiKey(): string {
+    return `ahp_${crypto.randomBytes(24).toString('hex')}`;
+  }
+
+  // Generate bearer token for admin sessions
+  static generateSessionToken(): string {
+    return `ahs_${crypto.randomBytes(32).toString('hex')}`;
+  }
+
+  // Hash API keys and session tokens for storage and lookup
+  static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  // Hash password with scrypt and a random salt
+  static hashPassword(password: string): string {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+    return `scrypt$${salt}$${hash}`;
+  }
+
+  // Verify password against a stored scrypt hash
+  static verifyPassword(password: string, storedHash: string): boolean {
+    const [algorithm, salt, hash] = storedHash.split('$');
+    if (algorithm !== 'scrypt' || !salt || !hash) {
+      return false;
+    }
+
+    const expected = Buffer.from(hash, 'hex');
+    const actual = crypto.scryptSync(password, salt, expected.length);
+    return crypto.timingSafeEqual(actual, expected);
+  }
+
+  // Generate challenge token for endpoint verification
+  static generateVerificationToken(): string {
+    return `ahc_${crypto.randomBytes(24).toString('hex')}`;
+  }
+
   // Generate idempotency key
   static generateIdempotencyKey(): string {
     return crypto.randomUUID();
   }
 
-  // Validate webhook URL format
+  // Validate webhook URL format (where it may point is checked by DestinationPolicy)
   static isValidWebhookUrl(url: string): boolean {
     try {
       const parsedUrl = new URL(url);
@@ -63,19 +126,184 @@ export class SecurityUtils {
     }
   }
 
-  // Generate secure headers for webhook delivery
-  static generateWebhookHeaders(payload: string, secret: string, eventType: string, eventId: string) {
-    const signature = this.generateWebhookSignature(payload, secret);
+  // Validate event type format (alphanumeric with dots, underscores and hyphens)
+  static isValidEventType(eventType: string): boolean {
+    return /^[a-zA-Z0-9._-]+$/.test(eventType);
+  }
+
+  // Generate secure headers for webhook delivery, signing with the previous secret too while it's in its grace period
+  static generateWebhookHeaders(
+    payload: string,
+    secret: string,
+    eventType: string,
+    eventId: string,
+    options: WebhookHeaderOptions = {}
+  ): Record<string, string> {
+    const secrets = [secret, options.previousSecret].filter((key): key is string => !!key);
     const timestamp = Math.floor(Date.now() / 1000).toString();
     
-    return {
+    const headers: Record<string, string> = {
       'Content-Type': 'application/json',
-      'X-AlgoHire-Signature': signature,
       'X-AlgoHire-Timestamp': timestamp,
       'X-AlgoHire-Event-Type': eventType,
       'X-AlgoHire-Event-ID': eventId,
       'User-Agent': 'AlgoHire-Webhook-Relay/1.0'
     };
+
+    if (options.scheme !== 'none') {
+      headers['X-AlgoHire-Signature'] = secrets
+        .map(key => this.generateWebhookSignature(payload, key))
+        .join(',');
+    }
+
+    if (options.sequence !== undefined) {
+      headers['X-AlgoHire-Sequence'] = String(options.sequence);
+      if (options.orderingKey) {
+        headers['X-AlgoHire-Ordering-Key'] = encodeURIComponent(options.orderingKey);
+      }
+    }
+
+    // Standard Webhooks signs id.timestamp.body so the timestamp can't be swapped; legacy headers stay alongside
+    if (options.scheme === 'standard_webhooks') {
+      const messageId = options.messageId || eventId;
+      headers['webhook-id'] = messageId;
+      headers['webhook-timestamp'] = timestamp;
+      headers['webhook-signature'] = secrets
+        .map(key => this.generateStandardWebhookSignature(messageId, timestamp, payload, key))
+        .join(' ');
+    }
+
+    // Ed25519 uses the same headers with a `v1a` signature; receivers look up the public key by kid
+    if (options.scheme === 'ed25519') {
+      if (!options.signingKey) {
+        throw new Error('The ed25519 signature scheme requires a signing key');
+      }
+      const messageId = options.messageId || eventId;
+      headers['webhook-id'] = messageId;
+      headers['webhook-timestamp'] = timestamp;
+      headers['webhook-signature'] = this.generateEd25519Signature(messageId, timestamp, payload, options.signingKey.privateKey);
+      headers['X-AlgoHire-Key-Id'] = options.signingKey.kid;
+    }
+
+    return headers;
+  }
+
+  // Generate a Standard Webhooks `v1,<base64>` signature over id.timestamp.body
+  static generateStandardWebhookSignature(messageId: string, timestamp: string, payload: string, secret: string): string {
+    const signature = crypto
+      .createHmac('sha256', this.getStandardWebhooksKey(secret))
+      .update(`${messageId}.${timestamp}.${payload}`)
+      .digest('base64');
+    return `v1,${signature}`;
+  }
+
+  // Verify Standard Webhooks headers, rejecting timestamps outside the tolerance window
+  static verifyStandardWebhookSignature(
+    payload: string,
+    headers: { id: string; timestamp: string; signature: string },
+    secret: string,
+    toleranceSeconds: number = 5 * 60
+  ): boolean {
+    const timestamp = parseInt(headers.timestamp);
+    if (!Number.isFinite(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.generateStandardWebhookSignature(headers.id, headers.timestamp, payload, secret));
+
+    return headers.signature.split(' ').some(value => {
+      const candidate = Buffer.from(value.trim());
+      return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
+    });
+  }
+
+  // Generate a Standard Webhooks `v1a,<base64>` Ed25519 signature over id.timestamp.body
+  static generateEd25519Signature(messageId: string, timestamp: string, payload: string, privateKey: crypto.KeyObject): string {
+    const signature = crypto.sign(null, Buffer.from(`${messageId}.${timestamp}.${payload}`), privateKey);
+    return `v1a,${signature.toString('base64')}`;
+  }
+
+  // Verify an Ed25519 webhook against a public key from the JWKS, rejecting timestamps outside the tolerance window
+  static verifyEd25519Signature(
+    payload: string,
+    headers: { id: string; timestamp: string; signature: string },
+    publicKey: crypto.KeyObject | crypto.JsonWebKey,
+    toleranceSeconds: number = 5 * 60
+  ): boolean {
+    const timestamp = parseInt(headers.timestamp);
+    if (!Number.isFinite(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+      return false;
+    }
+
+    const key = publicKey instanceof crypto.KeyObject ? publicKey : crypto.createPublicKey({ key: publicKey, format: 'jwk' });
+    const data = Buffer.from(`${headers.id}.${headers.timestamp}.${payload}`);
+
+    return headers.signature.split(' ').some(value => {
+      const candidate = value.trim();
+      if (!candidate.startsWith('v1a,')) {
+        return false;
+      }
+      try {
+        return crypto.verify(null, data, key, Buffer.from(candidate.substring(4), 'base64'));
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  // Generate an Ed25519 key pair: the public key as a JWK, the private key as PKCS#8 PEM
+  static generateEd25519KeyPair(): { publicJwk: crypto.JsonWebKey; privateKeyPem: string } {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+    return {
+      publicJwk: publicKey.export({ format: 'jwk' }),
+      privateKeyPem: privateKey.export({ format: 'pem', type: 'pkcs8' }).toString()
+    };
+  }
+
+  // Encrypt a secret for storage with AES-256-GCM under SECRETS_ENCRYPTION_KEY
+  static encryptSecret(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return `${ENCRYPTED_PREFIX}${iv.toString('base64')}:${tag.toString('base64')}:${ciphertext.toString('base64')}`;
+  }
+
+  // Decrypt a secret produced by encryptSecret
+  static decryptSecret(encrypted: string): string {
+    if (!encrypted.startsWith(ENCRYPTED_PREFIX)) {
+      throw new Error('Value is not an encrypted secret');
+    }
+
+    const [iv, tag, ciphertext] = encrypted.substring(ENCRYPTED_PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  }
+
+  // 32-byte key from SECRETS_ENCRYPTION_KEY: 64 hex characters are used as-is, anything else is hashed
+  private static getEncryptionKey(): Buffer {
+    const key = process.env.SECRETS_ENCRYPTION_KEY;
+    if (!key) {
+      throw new Error('SECRETS_ENCRYPTION_KEY must be set to store encrypted secrets');
+    }
+    return /^[0-9a-f]{64}$/i.test(key) ? Buffer.from(key, 'hex') : crypto.createHash('sha256').update(key).digest();
+  }
+
+  // Secret in the `whsec_<base64>` form Standard Webhooks libraries expect
+  static toStandardWebhooksSecret(secret: string): string {
+    return `whsec_${this.getStandardWebhooksKey(secret).toString('base64')}`;
+  }
+
+  // Key bytes behind a secret: whsec_ secrets are base64, generated secrets are hex
+  private static getStandardWebhooksKey(secret: string): Buffer {
+    if (secret.startsWith('whsec_')) {
+      return Buffer.from(secret.substring(6), 'base64');
+    }
+    if (/^[0-9a-f]{64}$/i.test(secret)) {
+      return Buffer.from(secret, 'hex');
+    }
+    return Buffer.from(secret, 'utf8');
   }
 
   // Validate timestamp to prevent replay attacks (5 minute window)
@@ -1,9 +1,24 @@
 // BullMQ worker for processing webhook deliveries
-import { Worker } from 'bullmq';
+import { Worker, UnrecoverableError, DelayedError } from 'bullmq';
 import { createClient } from 'redis';
-import axios from 'axios';
+import { Event, Subscription } from '@prisma/client';
 import { prisma } from '../config/prisma';
-import { SecurityUtils } from '../utils/security';
+import { SecurityUtils, SignatureScheme } from '../utils/security';
+import { EventPatternUtils } from '../utils/event-pattern';
+import { PayloadFilterUtils, FilterExpression } from '../utils/payload-filter';
+import { PayloadTransformUtils, TransformError } from '../utils/payload-transform';
+import { DestinationPolicy } from '../utils/destination-policy';
+import { RetryPolicy, RetryPolicyUtils } from '../utils/retry-policy';
+import { ResponseClassifier } from '../utils/response-classification';
+import { WebhookService } from '../services/webhook.service';
+import { DeadLetterService } from '../services/dead-letter.service';
+import { SubscriptionSecretService } from '../services/subscription-secret.service';
+import { SigningKeyService } from '../services/signing-key.service';
+import { WebhookTransport } from '../services/webhook-transport.service';
+import { CircuitBreakerService } from '../services/circuit-breaker.service';
+import { DeliveryThrottleService } from '../services/delivery-throttle.service';
+import { OrderedDeliveryService } from '../services/ordered-delivery.service';
+import { DeliveryBatchService } from '../services/delivery-batch.service';
 
 export class WebhookWorker {
   private static worker: Worker;
@@ -25,11 +40,18 @@ export class WebhookWorker {
       console.log('✅ Worker Redis connected successfully');
 
       // Initialize BullMQ worker with multiple job processors
-      this.worker = new Worker('webhook-delivery', this.processJob, {
+      this.worker = new Worker('webhook-delivery', (job, token) => this.processJob(job, token), {
         connection: this.redisClient,
         concurrency: parseInt(process.env.WEBHOOK_CONCURRENCY || '5'),
         removeOnComplete: { count: 100 },
         removeOnFail: { count: 50 },
+        settings: {
+          // A Retry-After header wins; otherwise delivery jobs carry their subscription's retry policy
+          // (jobs queued before policies existed get the default)
+          backoffStrategy: (attemptsMade, _type, err, job) =>
+            ResponseClassifier.getRetryAfterMs(err) ??
+            RetryPolicyUtils.getDelay(RetryPolicyUtils.resolve(job?.data?.retryPolicy), attemptsMade)
+        }
       });
 
       // Job event handlers
@@ -57,7 +79,7 @@ export class WebhookWorker {
   }
 
   // Main job processor that routes to specific handlers
-  private static async processJob(job: any) {
+  private static async processJob(job: any, token?: string) {
     const { type } = job.data;
     
     try {
@@ -65,11 +87,17 @@ export class WebhookWorker {
         case 'process-webhook-deliveries':
           return await this.processWebhookDeliveries(job);
         case 'deliver-webhook':
-          return await this.processWebhookDelivery(job);
+          return await this.processWebhookDelivery(job, token);
+        case 'deliver-batch':
+          return await this.processBatchDelivery(job, token);
         default:
           throw new Error(`Unknown job type: ${type}`);
       }
     } catch (error) {
+      // A throttled job was moved back to the delayed set; that isn't a failure
+      if (error instanceof DelayedError) {
+        throw error;
+      }
       console.error(`❌ Job processing failed for ${type}:`, error);
       throw error;
     }
@@ -82,169 +110,703 @@ export class WebhookWorker {
     try {
       console.log(`🔄 Processing webhook deliveries for event ${eventId} (type: ${eventType})`);
 
-      // Find all active subscriptions for this event type
-      const subscriptions = await prisma.subscription.findMany({
+      // Find all active, verified subscriptions whose patterns match this event type
+      const matchingSubscriptions = await prisma.subscription.findMany({
         where: {
-          event_type: eventType,
-          is_active: true
+          event_types: { hasSome: EventPatternUtils.getMatchingPatterns(eventType) },
+          is_active: true,
+          verification_status: 'verified'
         }
       });
 
+      // The payload is only needed for content filters and ordering keys
+      const event = matchingSubscriptions.some(subscription => subscription.filter !== null || subscription.ordered_delivery)
+        ? await prisma.event.findUnique({ where: { id: eventId }, select: { payload: true } })
+        : null;
+
+      // Drop subscriptions whose content filter rejects this payload
+      let subscriptions = matchingSubscriptions;
+      if (matchingSubscriptions.some(subscription => subscription.filter !== null)) {
+        subscriptions = matchingSubscriptions.filter(subscription =>
+          subscription.filter === null ||
+          PayloadFilterUtils.evaluate(subscription.filter as unknown as FilterExpression, event?.payload)
+        );
+
+        const filteredOut = matchingSubscriptions.length - subscriptions.length;
+        if (filteredOut > 0) {
+          console.log(`🔍 ${filteredOut} subscriptions filtered out for event ${eventId}`);
+        }
+      }
+
       if (subscriptions.length === 0) {
         console.log(`ℹ️ No active subscriptions found for event type: ${eventType}`);
         return { processed: 0, message: 'No active subscriptions' };
       }
 
-      // Queue individual webhook delivery jobs
-      const deliveryPromises = subscriptions.map(subscription => 
-        this.queueIndividualDelivery(eventId, subscription.id)
-      );
+      // One delivery record per subscription; skipDuplicates keeps re-runs idempotent.
+      // An open circuit breaker holds the delivery until the endpoint recovers, a pause until it's resumed.
+      const initialStatus = (subscription: Subscription) =>
+        subscription.circuit_state === 'closed' && !subscription.paused_at ? 'pending' : 'held';
+      await prisma.deliveryLog.createMany({
+        data: subscriptions.filter(subscription => !subscription.ordered_delivery).map(subscription => ({
+          event_id: eventId,
+          subscription_id: subscription.id,
+          status: initialStatus(subscription)
+        })),
+        skipDuplicates: true
+      });
+
+      // Ordered subscriptions number each delivery within its ordering key; a re-run skips the ones already created
+      const orderedSubscriptions = subscriptions.filter(subscription => subscription.ordered_delivery);
+      if (orderedSubscriptions.length > 0) {
+        const existing = await prisma.deliveryLog.findMany({
+          where: { event_id: eventId, subscription_id: { in: orderedSubscriptions.map(subscription => subscription.id) } },
+          select: { subscription_id: true }
+        });
+        const created = new Set(existing.map(deliveryLog => deliveryLog.subscription_id));
+
+        for (const subscription of orderedSubscriptions.filter(subscription => !created.has(subscription.id))) {
+          await OrderedDeliveryService.createDelivery(eventId, subscription, event?.payload, initialStatus(subscription));
+        }
+      }
+
+      const deliveryLogs = await prisma.deliveryLog.findMany({
+        where: {
+          event_id: eventId,
+          subscription_id: { in: subscriptions.map(subscription => subscription.id) },
+          status: 'pending',
+          attempt_count: 0,
+          batch_id: null // Joined a batch on an earlier run
+        }
+      });
+
+      // Batching subscriptions collect the delivery into their open batch; the rest get an individual job
+      // under the subscription's retry policy
+      const subscriptionsById = new Map(subscriptions.map(subscription => [subscription.id, subscription]));
+      const deliveryPromises = deliveryLogs.map(deliveryLog => {
+        const subscription = subscriptionsById.get(deliveryLog.subscription_id) as Subscription;
+        return subscription.batch_max_size
+          ? DeliveryBatchService.add(subscription, deliveryLog.id)
+          : this.queueIndividualDelivery(
+            deliveryLog.id,
+            eventId,
+            subscription.id,
+            RetryPolicyUtils.resolve(subscription.retry_policy)
+          );
+      });
 
       await Promise.all(deliveryPromises);
 
-      console.log(`📤 Queued ${subscriptions.length} webhook deliveries for event ${eventId}`);
-      return { processed: subscriptions.length };
+      console.log(`📤 Queued ${deliveryLogs.length} webhook deliveries for event ${eventId}`);
+      return { processed: deliveryLogs.length };
     } catch (error) {
       console.error(`❌ Failed to process webhook deliveries for event ${eventId}:`, error);
       throw error;
     }
   }
 
+  // Render the subscription's transform, or send the standard envelope
+  private static buildRequestBody(event: Event, subscription: Subscription): unknown {
+    const envelope = PayloadTransformUtils.buildEnvelope(event);
+
+    if (subscription.transform === null) {
+      return envelope;
+    }
+
+    try {
+      return PayloadTransformUtils.render(subscription.transform, envelope);
+    } catch (error) {
+      if (!(error instanceof TransformError)) {
+        throw error;
+      }
+      if (subscription.transform_on_error === 'send_original') {
+        console.warn(`⚠️ Transform failed for subscription ${subscription.id}, sending original envelope: ${error.message}`);
+        return envelope;
+      }
+      // Retrying renders the same template against the same event, so don't
+      throw new UnrecoverableError(`Transform failed: ${error.message}`);
+    }
+  }
+
   // Queue individual webhook delivery job
-  private static async queueIndividualDelivery(eventId: string, subscriptionId: string) {
+  private static async queueIndividualDelivery(deliveryLogId: string, eventId: string, subscriptionId: string, retryPolicy: RetryPolicy) {
     try {
       const queue = this.getQueue();
       await queue.add('deliver-webhook', {
         type: 'deliver-webhook',
+        deliveryLogId,
         eventId,
-        subscriptionId
-      }, {
-        attempts: parseInt(process.env.MAX_RETRY_ATTEMPTS || '3'),
-        backoff: {
-          type: 'exponential',
-          delay: 2000,
-        },
-        removeOnComplete: 10,
-        removeOnFail: 5,
-      });
+        subscriptionId,
+        retryPolicy
+      }, WebhookService.getDeliveryJobOptions(retryPolicy, await WebhookService.enterLane(subscriptionId)));
     } catch (error) {
       console.error(`❌ Failed to queue individual delivery for event ${eventId}, subscription ${subscriptionId}:`, error);
       throw error;
     }
   }
 
-  // Process individual webhook delivery
-  private static async processWebhookDelivery(job: any) {
-    const { eventId, subscriptionId } = job.data;
+  // Process individual webhook delivery, recording one attempt per run
+  private static async processWebhookDelivery(job: any, token?: string) {
+    const { deliveryLogId, eventId, subscriptionId } = job.data;
+    // Whether this run is the job's last, which frees its place in the subscription's lane
+    let isFinalRun = true;
+    // Whether this run holds one of the subscription's in-flight slots
+    let leased = false;
     
     try {
+      // Over the subscription's rate or in-flight limit: try again shortly, without using up an attempt. Checked before
+      // anything is loaded, so a job waiting on a limit costs one Redis call per wake-up
+      const slot = await DeliveryThrottleService.acquire(subscriptionId, job.id);
+      if (!slot.acquired) {
+        console.log(`🚦 Delaying delivery ${deliveryLogId} by ${slot.delayMs}ms: subscription ${subscriptionId} is at its ${slot.reason}`);
+        await job.moveToDelayed(Date.now() + slot.delayMs, token);
+        throw new DelayedError();
+      }
+      leased = slot.leased;
+
       console.log(`🔄 Processing individual webhook delivery for event ${eventId}, subscription ${subscriptionId}`);
 
-      // Fetch event and subscription data
-      const [event, subscription] = await Promise.all([
-        prisma.event.findUnique({ where: { id: eventId } }),
-        prisma.subscription.findUnique({ where: { id: subscriptionId } })
-      ]);
+      // Fetch the delivery with its event and subscription
+      const deliveryLog = await prisma.deliveryLog.findUnique({
+        where: { id: deliveryLogId },
+        include: {
+          event: true,
+          subscription: true
+        }
+      });
 
-      if (!event) {
-        throw new Error(`Event not found: ${eventId}`);
+      if (!deliveryLog) {
+        throw new Error(`Delivery not found: ${deliveryLogId}`);
       }
 
-      if (!subscription) {
-        throw new Error(`Subscription not found: ${subscriptionId}`);
-      }
+      const { event, subscription } = deliveryLog;
 
       if (!subscription.is_active) {
         throw new Error(`Subscription is inactive: ${subscriptionId}`);
       }
 
-      // Create delivery log entry
-      const deliveryLog = await prisma.deliveryLog.create({
+      // A paused subscription keeps its deliveries, including retries that come due, until it's resumed
+      if (subscription.paused_at) {
+        await CircuitBreakerService.hold(deliveryLog.id);
+        console.log(`⏸️ Holding delivery ${deliveryLog.id}: subscription ${subscriptionId} is paused`);
+        return { held: true, deliveryLogId: deliveryLog.id };
+      }
+
+      // Retries already queued when the breaker opened are held too, instead of hitting the failing endpoint
+      const isProbe = job.data.probe === true;
+      if (CircuitBreakerService.isHolding(subscription, isProbe)) {
+        await CircuitBreakerService.hold(deliveryLog.id);
+        console.log(`⏸️ Holding delivery ${deliveryLog.id}: circuit breaker is ${subscription.circuit_state} for subscription ${subscriptionId}`);
+        return { held: true, deliveryLogId: deliveryLog.id };
+      }
+
+      // An ordered delivery only goes out once everything ahead of it in its key has finished
+      if (deliveryLog.sequence !== null && !(await OrderedDeliveryService.claimTurn(deliveryLog))) {
+        console.log(`⏸️ Delivery ${deliveryLog.id} (sequence ${deliveryLog.sequence}) is waiting behind an earlier delivery for subscription ${subscriptionId}`);
+        return { waiting: true, deliveryLogId: deliveryLog.id };
+      }
+
+      // Claim the next attempt number; manual retries continue the same sequence
+      const { attempt_count: attemptNumber } = await prisma.deliveryLog.update({
+        where: { id: deliveryLog.id },
         data: {
-          event_id: eventId,
-          subscription_id: subscriptionId,
-          status: 'pending',
-          attempt_count: 1,
-          attempted_at: new Date()
+          attempt_count: { increment: 1 },
+          attempted_at: new Date(),
+          next_retry_at: null
         }
       });
 
+      const startedAt = new Date();
+
       try {
-        // Prepare webhook payload
-        const payload = JSON.stringify({
-          id: event.id,
-          eventType: event.event_type,
-          payload: event.payload,
-          receivedAt: event.received_at,
-          idempotencyKey: event.idempotency_key
-        });
+        // Deliveries queued before a target URL change mustn't reach the new endpoint until it's verified
+        if (subscription.verification_status !== 'verified') {
+          throw new UnrecoverableError(`Subscription endpoint is not verified (${subscription.verification_status})`);
+        }
+
+        // Prepare webhook payload; a batching subscription always receives an array, even when a delivery goes out alone
+        const body = this.buildRequestBody(event, subscription);
+        const payload = JSON.stringify(subscription.batch_max_size ? [body] : body);
 
         // Generate secure headers
         const headers = SecurityUtils.generateWebhookHeaders(
           payload,
           subscription.secret_key,
           event.event_type,
-          event.id
+          event.id,
+          {
+            previousSecret: SubscriptionSecretService.getActivePreviousSecret(subscription),
+            scheme: subscription.signature_scheme as SignatureScheme,
+            messageId: deliveryLog.id,
+            signingKey: subscription.signature_scheme === 'ed25519' ? await SigningKeyService.getActiveKey() : undefined,
+            sequence: deliveryLog.sequence ?? undefined,
+            orderingKey: deliveryLog.ordering_key ?? undefined
+          }
         );
 
-        // Send webhook
-        const timeout = parseInt(process.env.WEBHOOK_TIMEOUT || '30000');
-        const response = await axios.post(subscription.target_url, payload, {
-          headers,
-          timeout,
-          validateStatus: (status) => status >= 200 && status < 300
-        });
-
-        // Update delivery log with success
-        await prisma.deliveryLog.update({
-          where: { id: deliveryLog.id },
-          data: {
-            status: 'success',
-            response_status_code: response.status,
-            response_body: JSON.stringify(response.data).substring(0, 1000), // Limit response body size
-            attempted_at: new Date()
+        // Send webhook with the subscription's outbound auth and client certificate
+        let response;
+        try {
+          response = await this.sendWebhook(subscription, payload, headers);
+        } finally {
+          if (leased) {
+            leased = false;
+            await DeliveryThrottleService.release(subscriptionId, job.id);
           }
-        });
+        }
 
-        console.log(`✅ Webhook delivered successfully to ${subscription.target_url} (status: ${response.status})`);
+        const responseBody = JSON.stringify(response.data).substring(0, 1000); // Limit response body size
+
+        await prisma.$transaction([
+          prisma.deliveryAttempt.create({
+            data: {
+              delivery_log_id: deliveryLog.id,
+              attempt_number: attemptNumber,
+              status: 'success',
+              started_at: startedAt,
+              duration_ms: Date.now() - startedAt.getTime(),
+              response_status_code: response.status,
+              response_headers: this.serializeHeaders(response.headers),
+              response_body: responseBody,
+              classification: 'success'
+            }
+          }),
+          prisma.deliveryLog.update({
+            where: { id: deliveryLog.id },
+            data: {
+              status: 'succeeded',
+              classification: 'success',
+              completed_at: new Date(),
+              response_status_code: response.status,
+              response_body: responseBody,
+              error_message: null
+            }
+          })
+        ]);
+
+        await CircuitBreakerService.recordSuccess(subscription);
+        if (deliveryLog.sequence !== null) {
+          await OrderedDeliveryService.advance(subscription.id, deliveryLog.ordering_key as string);
+        }
+
+        console.log(`✅ Webhook delivered successfully to ${subscription.target_url} (status: ${response.status}, attempt ${attemptNumber})`);
         return { 
           success: true, 
           statusCode: response.status,
-          deliveryLogId: deliveryLog.id
+          deliveryLogId: deliveryLog.id,
+          attemptNumber
         };
 
-      } catch (deliveryError: any) {
-        // Update delivery log with failure
-        const errorMessage = deliveryError.message || 'Unknown error';
-        const statusCode = deliveryError.response?.status || 0;
-        const responseBody = deliveryError.response?.data ? 
-          JSON.stringify(deliveryError.response.data).substring(0, 1000) : null;
-
-        await prisma.deliveryLog.update({
-          where: { id: deliveryLog.id },
-          data: {
-            status: 'failed',
-            response_status_code: statusCode,
-            response_body: responseBody,
-            error_message: errorMessage,
-            attempted_at: new Date()
+      } catch (caughtError: any) {
+        const {
+          deliveryError, errorMessage, response, statusCode, responseBody, classification, hasRetriesLeft, nextRetryAt
+        } = this.assessFailure(job, caughtError, subscription);
+
+        await prisma.$transaction([
+          prisma.deliveryAttempt.create({
+            data: {
+              delivery_log_id: deliveryLog.id,
+              attempt_number: attemptNumber,
+              status: 'failed',
+              started_at: startedAt,
+              duration_ms: Date.now() - startedAt.getTime(),
+              response_status_code: statusCode,
+              response_headers: response
+                ? this.serializeHeaders(response.headers)
+                : undefined,
+              response_body: responseBody,
+              error_message: errorMessage,
+              classification,
+              next_retry_at: nextRetryAt
+            }
+          }),
+          prisma.deliveryLog.update({
+            where: { id: deliveryLog.id },
+            data: {
+              status: hasRetriesLeft ? 'retrying' : 'exhausted',
+              next_retry_at: nextRetryAt,
+              completed_at: hasRetriesLeft ? null : new Date(),
+              response_status_code: statusCode,
+              response_body: responseBody,
+              error_message: errorMessage,
+              classification
+            }
+          }),
+          // 410 Gone: the receiver has retired this endpoint, so stop fanning events out to it
+          ...(classification === 'gone' ? [
+            prisma.subscription.update({
+              where: { id: subscription.id },
+              data: {
+                is_active: false,
+                deactivated_at: new Date(),
+                deactivation_reason: `Endpoint returned 410 Gone on delivery ${deliveryLog.id}`
+              }
+            })
+          ] : []),
+          // Out of retries: keep the delivery in the dead-letter store for inspection and requeue
+          ...(hasRetriesLeft ? [] : [
+            DeadLetterService.deadLetterDelivery(deliveryLog.id, event.id, subscription.id, {
+              finalError: errorMessage,
+              finalStatusCode: statusCode || null,
+              attemptCount: attemptNumber
+            })
+          ])
+        ]);
+
+        // Only transient failures count towards the breaker; any other answer shows the endpoint is up
+        if (classification === 'retryable') {
+          await CircuitBreakerService.recordFailure(subscription, isProbe);
+        } else if (response && classification === 'non_retryable') {
+          await CircuitBreakerService.recordSuccess(subscription);
+        }
+
+        if (classification === 'gone') {
+          console.warn(`🪦 ${subscription.target_url} returned 410 Gone; deactivated subscription ${subscription.id}`);
+        }
+        if (!hasRetriesLeft) {
+          // A dead-lettered head no longer blocks its key; receivers see the gap in the sequence
+          if (deliveryLog.sequence !== null) {
+            await OrderedDeliveryService.advance(subscription.id, deliveryLog.ordering_key as string);
           }
-        });
+          console.error(`☠️ Delivery ${deliveryLog.id} ${classification === 'retryable' ? 'exhausted its retries' : `failed (${classification})`} and was dead-lettered`);
+        }
 
-        console.error(`❌ Webhook delivery failed to ${subscription.target_url}:`, errorMessage);
+        console.error(`❌ Webhook delivery failed to ${subscription.target_url} (attempt ${attemptNumber}):`, errorMessage);
         throw deliveryError;
       }
 
     } catch (error) {
+      if (error instanceof DelayedError) {
+        isFinalRun = false;
+        throw error;
+      }
+      isFinalRun = error instanceof UnrecoverableError || job.attemptsMade + 1 >= (job.opts.attempts || 1);
       console.error(`❌ Webhook delivery processing failed for event ${eventId}, subscription ${subscriptionId}:`, error);
       throw error;
+    } finally {
+      // Frees the slot when the run ended before the request was sent
+      if (leased) {
+        await DeliveryThrottleService.release(subscriptionId, job.id);
+      }
+      // Jobs queued before lanes existed have no priority and never entered one
+      if (isFinalRun && job.opts.priority) {
+        await WebhookService.leaveLane(subscriptionId);
+      }
+    }
+  }
+
+  // Send a batch as one signed JSON array. Every delivery in it shares the outcome, and a retry resends the same batch
+  private static async processBatchDelivery(job: any, token?: string) {
+    const { batchId, subscriptionId } = job.data;
+    // Whether this run is the job's last, which frees its place in the subscription's lane
+    let isFinalRun = true;
+    // Whether this run holds one of the subscription's in-flight slots
+    let leased = false;
+
+    try {
+      // Throttled before the batch is closed and loaded; it keeps collecting events while it waits
+      const slot = await DeliveryThrottleService.acquire(subscriptionId, job.id);
+      if (!slot.acquired) {
+        console.log(`🚦 Delaying batch ${batchId} by ${slot.delayMs}ms: subscription ${subscriptionId} is at its ${slot.reason}`);
+        await job.moveToDelayed(Date.now() + slot.delayMs, token);
+        throw new DelayedError();
+      }
+      leased = slot.leased;
+
+      // Nothing joins the batch once it's being sent
+      await DeliveryBatchService.close(batchId);
+
+      const batch = await prisma.deliveryBatch.findUnique({
+        where: { id: batchId },
+        include: {
+          subscription: true,
+          delivery_logs: {
+            include: { event: true },
+            orderBy: { created_at: 'asc' }
+          }
+        }
+      });
+
+      if (!batch) {
+        throw new Error(`Batch not found: ${batchId}`);
+      }
+
+      const { subscription, delivery_logs: deliveryLogs } = batch;
+      const deliveryLogIds = deliveryLogs.map(deliveryLog => deliveryLog.id);
+
+      if (deliveryLogs.length === 0) {
+        return { processed: 0, batchId };
+      }
+
+      if (!subscription.is_active) {
+        throw new Error(`Subscription is inactive: ${subscriptionId}`);
+      }
+
+      // A batch is never the probe; its deliveries are batched again when they're released
+      if (subscription.paused_at || CircuitBreakerService.isHolding(subscription, false)) {
+        await DeliveryBatchService.hold(batchId);
+        console.log(`⏸️ Holding batch ${batchId} (${deliveryLogs.length} deliveries): subscription ${subscriptionId} is ${subscription.paused_at ? 'paused' : `behind a ${subscription.circuit_state} circuit breaker`}`);
+        return { held: true, batchId };
+      }
+
+      // Each attempt at the batch is an attempt at every delivery in it. A delivery keeps its own numbering, since
+      // one released from a held batch may already have attempts from it
+      const { attempt_count: attemptNumber } = await prisma.deliveryBatch.update({
+        where: { id: batchId },
+        data: { attempt_count: { increment: 1 } }
+      });
+      const attemptNumbers = new Map((await prisma.$transaction([
+        prisma.deliveryLog.updateMany({
+          where: { id: { in: deliveryLogIds } },
+          data: { attempt_count: { increment: 1 }, attempted_at: new Date(), next_retry_at: null }
+        }),
+        prisma.deliveryLog.findMany({
+          where: { id: { in: deliveryLogIds } },
+          select: { id: true, attempt_count: true }
+        })
+      ]))[1].map(deliveryLog => [deliveryLog.id, deliveryLog.attempt_count]));
+
+      const startedAt = new Date();
+
+      try {
+        if (subscription.verification_status !== 'verified') {
+          throw new UnrecoverableError(`Subscription endpoint is not verified (${subscription.verification_status})`);
+        }
+
+        const payload = JSON.stringify(deliveryLogs.map(deliveryLog => this.buildRequestBody(deliveryLog.event, subscription)));
+
+        // The batch id stands in for the event id, and is stable across retries of the batch
+        const headers = SecurityUtils.generateWebhookHeaders(
+          payload,
+          subscription.secret_key,
+          'webhook.batch',
+          batchId,
+          {
+            previousSecret: SubscriptionSecretService.getActivePreviousSecret(subscription),
+            scheme: subscription.signature_scheme as SignatureScheme,
+            messageId: batchId,
+            signingKey: subscription.signature_scheme === 'ed25519' ? await SigningKeyService.getActiveKey() : undefined
+          }
+        );
+        headers['X-AlgoHire-Batch-Size'] = String(deliveryLogs.length);
+
+        let response;
+        try {
+          response = await this.sendWebhook(subscription, payload, headers);
+        } finally {
+          if (leased) {
+            leased = false;
+            await DeliveryThrottleService.release(subscriptionId, job.id);
+          }
+        }
+
+        const responseBody = JSON.stringify(response.data).substring(0, 1000);
+        const durationMs = Date.now() - startedAt.getTime();
+
+        await prisma.$transaction([
+          prisma.deliveryAttempt.createMany({
+            data: deliveryLogIds.map(deliveryLogId => ({
+              delivery_log_id: deliveryLogId,
+              attempt_number: attemptNumbers.get(deliveryLogId) as number,
+              status: 'success',
+              started_at: startedAt,
+              duration_ms: durationMs,
+              response_status_code: response.status,
+              response_headers: this.serializeHeaders(response.headers),
+              response_body: responseBody,
+              classification: 'success'
+            }))
+          }),
+          prisma.deliveryLog.updateMany({
+            where: { id: { in: deliveryLogIds } },
+            data: {
+              status: 'succeeded',
+              classification: 'success',
+              completed_at: new Date(),
+              response_status_code: response.status,
+              response_body: responseBody,
+              error_message: null
+            }
+          }),
+          prisma.deliveryBatch.update({
+            where: { id: batchId },
+            data: { status: 'succeeded', completed_at: new Date() }
+          })
+        ]);
+
+        await CircuitBreakerService.recordSuccess(subscription);
+
+        console.log(`✅ Batch ${batchId} of ${deliveryLogs.length} events delivered to ${subscription.target_url} (status: ${response.status}, attempt ${attemptNumber})`);
+        return {
+          success: true,
+          statusCode: response.status,
+          batchId,
+          delivered: deliveryLogs.length,
+          attemptNumber
+        };
+
+      } catch (caughtError: any) {
+        const {
+          deliveryError, errorMessage, response, statusCode, responseBody, classification, hasRetriesLeft, nextRetryAt
+        } = this.assessFailure(job, caughtError, subscription);
+        const durationMs = Date.now() - startedAt.getTime();
+
+        await prisma.$transaction([
+          prisma.deliveryAttempt.createMany({
+            data: deliveryLogIds.map(deliveryLogId => ({
+              delivery_log_id: deliveryLogId,
+              attempt_number: attemptNumbers.get(deliveryLogId) as number,
+              status: 'failed',
+              started_at: startedAt,
+              duration_ms: durationMs,
+              response_status_code: statusCode,
+              response_headers: response
+                ? this.serializeHeaders(response.headers)
+                : undefined,
+              response_body: responseBody,
+              error_message: errorMessage,
+              classification,
+              next_retry_at: nextRetryAt
+            }))
+          }),
+          prisma.deliveryLog.updateMany({
+            where: { id: { in: deliveryLogIds } },
+            data: {
+              status: hasRetriesLeft ? 'retrying' : 'exhausted',
+              next_retry_at: nextRetryAt,
+              completed_at: hasRetriesLeft ? null : new Date(),
+              response_status_code: statusCode,
+              response_body: responseBody,
+              error_message: errorMessage,
+              classification
+            }
+          }),
+          prisma.deliveryBatch.update({
+            where: { id: batchId },
+            data: {
+              status: hasRetriesLeft ? 'retrying' : 'exhausted',
+              completed_at: hasRetriesLeft ? null : new Date()
+            }
+          }),
+          ...(classification === 'gone' ? [
+            prisma.subscription.update({
+              where: { id: subscription.id },
+              data: {
+                is_active: false,
+                deactivated_at: new Date(),
+                deactivation_reason: `Endpoint returned 410 Gone on batch ${batchId}`
+              }
+            })
+          ] : []),
+          // Out of retries: each event is dead-lettered on its own, so it can be requeued without the rest
+          ...(hasRetriesLeft ? [] : deliveryLogs.map(deliveryLog =>
+            DeadLetterService.deadLetterDelivery(deliveryLog.id, deliveryLog.event_id, subscription.id, {
+              finalError: errorMessage,
+              finalStatusCode: statusCode || null,
+              attemptCount: attemptNumbers.get(deliveryLog.id) as number
+            })
+          ))
+        ]);
+
+        if (classification === 'retryable') {
+          await CircuitBreakerService.recordFailure(subscription, false);
+        } else if (response && classification === 'non_retryable') {
+          await CircuitBreakerService.recordSuccess(subscription);
+        }
+
+        if (classification === 'gone') {
+          console.warn(`🪦 ${subscription.target_url} returned 410 Gone; deactivated subscription ${subscription.id}`);
+        }
+        if (!hasRetriesLeft) {
+          console.error(`☠️ Batch ${batchId} ${classification === 'retryable' ? 'exhausted its retries' : `failed (${classification})`}; ${deliveryLogs.length} deliveries were dead-lettered`);
+        }
+
+        console.error(`❌ Batch delivery failed to ${subscription.target_url} (attempt ${attemptNumber}):`, errorMessage);
+        throw deliveryError;
+      }
+
+    } catch (error) {
+      if (error instanceof DelayedError) {
+        isFinalRun = false;
+        throw error;
+      }
+      isFinalRun = error instanceof UnrecoverableError || job.attemptsMade + 1 >= (job.opts.attempts || 1);
+      console.error(`❌ Batch delivery processing failed for batch ${batchId}, subscription ${subscriptionId}:`, error);
+      throw error;
+    } finally {
+      // Frees the slot when the run ended before the request was sent
+      if (leased) {
+        await DeliveryThrottleService.release(subscriptionId, job.id);
+      }
+      if (isFinalRun) {
+        await WebhookService.leaveLane(subscriptionId);
+      }
+    }
+  }
+
+  // Work out what a failed attempt means: its classification, whether and when the job retries, and the error to throw
+  private static assessFailure(job: any, caughtError: any, subscription: Subscription) {
+    let deliveryError = caughtError;
+    let errorMessage = deliveryError.message || 'Unknown error';
+    const response = caughtError.response;
+    const statusCode = response?.status || 0;
+    const responseBody: string | null = response?.data ?
+      JSON.stringify(response.data).substring(0, 1000) : null;
+
+    // Resending the same request won't fix a client error, so only transient failures are retried
+    const classification = ResponseClassifier.classify(caughtError);
+    if (classification !== 'retryable' && !(caughtError instanceof UnrecoverableError)) {
+      deliveryError = new UnrecoverableError(errorMessage);
+    }
+
+    // BullMQ increments attemptsMade after this throw, so count the current run
+    const attemptsMade = job.attemptsMade + 1;
+    const retryPolicy = RetryPolicyUtils.resolve(job.data.retryPolicy);
+    const retryAfterMs = ResponseClassifier.getRetryAfterMs(caughtError);
+    const retryAt = Date.now() + (retryAfterMs ?? RetryPolicyUtils.getDelay(retryPolicy, attemptsMade));
+    let hasRetriesLeft = classification === 'retryable' && attemptsMade < (job.opts.attempts || 1);
+
+    // The window counts from when this job was queued, so a manual retry gets a fresh one
+    if (hasRetriesLeft && !RetryPolicyUtils.isWithinWindow(retryPolicy, job.timestamp, retryAt)) {
+      hasRetriesLeft = false;
+      errorMessage = `${errorMessage} (retry window of ${retryPolicy.maxRetryWindowMs}ms exhausted)`;
+      deliveryError = new UnrecoverableError(errorMessage);
+    }
+    const nextRetryAt = hasRetriesLeft ? new Date(retryAt) : null;
+
+    if (hasRetriesLeft && retryAfterMs !== undefined) {
+      console.log(`⏳ ${subscription.target_url} asked to retry after ${Math.round(retryAfterMs / 1000)}s (status ${statusCode})`);
+    }
+
+    return { deliveryError, errorMessage, response, statusCode, responseBody, classification, hasRetriesLeft, nextRetryAt };
+  }
+
+  // Send through the shared transport; a destination blocked by policy won't change between retries, so don't retry into it
+  private static async sendWebhook(subscription: Subscription, payload: string, headers: Record<string, string>) {
+    try {
+      return await WebhookTransport.post(subscription, payload, headers);
+    } catch (error) {
+      if (DestinationPolicy.isBlockedError(error)) {
+        console.warn(`🛡️ Blocked delivery to ${subscription.target_url} for subscription ${subscription.id}: ${error.message}`);
+        throw new UnrecoverableError(`Destination blocked: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  // Flatten response headers into a JSON-safe object
+  private static serializeHeaders(headers: any): Record<string, string> {
+    const serialized: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers || {})) {
+      if (value !== undefined && value !== null) {
+        serialized[name] = Array.isArray(value) ? value.join(', ') : String(value);
+      }
     }
+    return serialized;
   }
 
   // Get the queue instance (helper method)
   private static getQueue() {
-    // Import WebhookService to get queue instance
-    const { WebhookService } = require('../services/webhook.service');
     return WebhookService.getQueue();
   }
 
@@ -13,6 +13,9 @@
 import axios from 'axios';
 
 const BASE_URL = 'http://localhost:8000';
+const PRODUCER_API_KEY = process.env.PRODUCER_API_KEY; // Issued via POST /api/v1/admin/producers
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN; // Returned by POST /api/v1/auth/login
+const adminHeaders = { Authorization: `Bearer ${ADMIN_TOKEN}` };
 
 async function testCompleteWebhookFlow() {
   console.log('🧪 Testing Complete Webhook Relay System\n');
@@ -21,9 +24,9 @@ async function testCompleteWebhookFlow() {
     // Step 1: Create webhook subscription
     console.log('1. Creating webhook subscription...');
     const subscriptionResponse = await axios.post(`${BASE_URL}/api/v1/admin/subscriptions`, {
-      eventType: 'test.complete.flow',
+      eventTypes: ['test.complete.flow'],
       targetUrl: 'https://httpbin.org/post' // Using httpbin for testing
-    });
+    }, { headers: adminHeaders });
 
     if (!subscriptionResponse.data.success) {
       throw new Error('Failed to create subscription');
@@ -31,7 +34,7 @@ async function testCompleteWebhookFlow() {
 
     const subscription = subscriptionResponse.data.subscription;
     console.log('✅ Subscription created:', subscription.id);
-    console.log('   Event Type:', subscription.eventType);
+    console.log('   Event Types:', subscription.eventTypes.join(', '));
     console.log('   Target URL:', subscription.targetUrl);
     console.log('   Secret Key:', subscription.secretKey.substring(0, 16) + '...');
     console.log('');
@@ -50,6 +53,7 @@ async function testCompleteWebhookFlow() {
       }
     }, {
       headers: {
+        'x-api-key': PRODUCER_API_KEY,
         'x-idempotency-key': `test-complete-flow-${Date.now()}`
       }
     });
@@ -70,7 +74,7 @@ async function testCompleteWebhookFlow() {
 
     // Step 4: Check delivery logs
     console.log('4. Checking delivery logs...');
-    const logsResponse = await axios.get(`${BASE_URL}/api/v1/admin/delivery-logs`);
+    const logsResponse = await axios.get(`${BASE_URL}/api/v1/admin/delivery-logs`, { headers: adminHeaders });
     
     if (!logsResponse.data.success) {
       throw new Error('Failed to fetch delivery logs');
@@ -93,7 +97,7 @@ async function testCompleteWebhookFlow() {
 
     // Step 5: Check system stats
     console.log('5. Checking system statistics...');
-    const statsResponse = await axios.get(`${BASE_URL}/api/v1/admin/stats`);
+    const statsResponse = await axios.get(`${BASE_URL}/api/v1/admin/stats`, { headers: adminHeaders });
     
     if (statsResponse.data.success) {
       const stats = statsResponse.data.stats;
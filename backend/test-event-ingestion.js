@@ -10,6 +10,7 @@
 import axios from 'axios';
 
 const BASE_URL = 'http://localhost:8000';
+const PRODUCER_API_KEY = process.env.PRODUCER_API_KEY; // Issued via POST /api/v1/admin/producers
 const EVENTS_ENDPOINT = `${BASE_URL}/api/v1/events`;
 
 // Sample events for testing
@@ -72,6 +73,7 @@ async function testEventIngestion() {
         const response = await axios.post(EVENTS_ENDPOINT, event, {
           headers: {
             'Content-Type': 'application/json',
+            'x-api-key': PRODUCER_API_KEY,
             'x-idempotency-key': idempotencyKey
           },
           timeout: 10000
@@ -104,6 +106,7 @@ async function testEventIngestion() {
       const response = await axios.post(EVENTS_ENDPOINT, sampleEvents[0], {
         headers: {
           'Content-Type': 'application/json',
+          'x-api-key': PRODUCER_API_KEY,
           'x-idempotency-key': duplicateIdempotencyKey
         },
         timeout: 10000
@@ -132,7 +135,8 @@ async function testEventIngestion() {
     try {
       await axios.post(EVENTS_ENDPOINT, sampleEvents[0], {
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          'x-api-key': PRODUCER_API_KEY
           // Missing x-idempotency-key header
         },
         timeout: 10000
@@ -154,6 +158,7 @@ async function testEventIngestion() {
       }, {
         headers: {
           'Content-Type': 'application/json',
+          'x-api-key': PRODUCER_API_KEY,
           'x-idempotency-key': `test-invalid-${Date.now()}`
         },
         timeout: 10000
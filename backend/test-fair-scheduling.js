@@ -0,0 +1,169 @@
+#!/usr/bin/env node
+
+/**
+ * Fair Scheduling Load Test
+ *
+ * Shows that a backlog on one slow subscriber doesn't hold up deliveries to others:
+ * 1. Starts two local receivers, one that takes SLOW_RESPONSE_MS to answer and one that answers at once
+ * 2. Subscribes each to its own event type
+ * 3. Floods the slow subscriber with SLOW_EVENTS events
+ * 4. Trickles FAST_EVENTS events to the fast subscriber while the backlog is queued
+ * 5. Reports delivery latency for the fast subscriber and fails if its p95 exceeds MAX_FAST_P95_MS
+ *
+ * The receivers listen on this machine, so start the server with
+ * WEBHOOK_DESTINATION_ALLOWLIST=localhost,127.0.0.1
+ */
+
+import axios from 'axios';
+import http from 'http';
+
+const BASE_URL = 'http://localhost:8000';
+const PRODUCER_API_KEY = process.env.PRODUCER_API_KEY; // Issued via POST /api/v1/admin/producers
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN; // Returned by POST /api/v1/auth/login
+const adminHeaders = { Authorization: `Bearer ${ADMIN_TOKEN}` };
+
+const SLOW_PORT = 9101;
+const FAST_PORT = 9102;
+const SLOW_RESPONSE_MS = parseInt(process.env.SLOW_RESPONSE_MS || '5000');
+const SLOW_EVENTS = parseInt(process.env.SLOW_EVENTS || '500');
+const FAST_EVENTS = parseInt(process.env.FAST_EVENTS || '20');
+const FAST_INTERVAL_MS = 250;
+const MAX_FAST_P95_MS = parseInt(process.env.MAX_FAST_P95_MS || '2000');
+const BATCH_SIZE = 100;
+const runId = Date.now();
+
+// Receiver that answers the verification challenge and records how long each delivery took to arrive
+function startReceiver(port, delayMs, received) {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const message = JSON.parse(body || '{}');
+
+      if (message.type === 'webhook.verification') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ challenge: message.challenge }));
+        return;
+      }
+
+      received.push(Date.now() - new Date(message.receivedAt).getTime());
+      setTimeout(() => {
+        res.writeHead(200);
+        res.end('ok');
+      }, delayMs);
+    });
+  });
+
+  return new Promise(resolve => server.listen(port, '127.0.0.1', () => resolve(server)));
+}
+
+async function createSubscription(eventType, port) {
+  const response = await axios.post(`${BASE_URL}/api/v1/admin/subscriptions`, {
+    eventTypes: [eventType],
+    targetUrl: `http://127.0.0.1:${port}/webhook`,
+    description: `Fair scheduling load test ${runId}`
+  }, { headers: adminHeaders });
+
+  if (!response.data.success) {
+    throw new Error(`Failed to create subscription for ${eventType}`);
+  }
+  if (response.data.subscription.verificationStatus !== 'verified') {
+    throw new Error(`Receiver on port ${port} was not verified: ${response.data.subscription.verificationError}`);
+  }
+  return response.data.subscription;
+}
+
+async function sendBatch(eventType, from, count) {
+  const events = Array.from({ length: count }, (_, i) => ({
+    eventType,
+    idempotencyKey: `fair-${runId}-${eventType}-${from + i}`,
+    payload: { sequence: from + i }
+  }));
+
+  await axios.post(`${BASE_URL}/api/v1/events/batch`, { events }, {
+    headers: { 'x-api-key': PRODUCER_API_KEY }
+  });
+}
+
+function percentile(values, p) {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+async function testFairScheduling() {
+  console.log('🧪 Testing Fair Scheduling Across Subscriptions\n');
+
+  const slowReceived = [];
+  const fastReceived = [];
+  const servers = [
+    await startReceiver(SLOW_PORT, SLOW_RESPONSE_MS, slowReceived),
+    await startReceiver(FAST_PORT, 0, fastReceived)
+  ];
+  const subscriptions = [];
+  const slowEventType = `loadtest.slow.${runId}`;
+  const fastEventType = `loadtest.fast.${runId}`;
+
+  try {
+    // Step 1: Subscribe both receivers
+    console.log('1. Creating subscriptions...');
+    subscriptions.push(await createSubscription(slowEventType, SLOW_PORT));
+    subscriptions.push(await createSubscription(fastEventType, FAST_PORT));
+    console.log(`✅ Slow receiver answers after ${SLOW_RESPONSE_MS}ms, fast receiver answers at once`);
+    console.log('');
+
+    // Step 2: Build a backlog for the slow receiver
+    console.log(`2. Flooding the slow receiver with ${SLOW_EVENTS} events...`);
+    for (let sent = 0; sent < SLOW_EVENTS; sent += BATCH_SIZE) {
+      await sendBatch(slowEventType, sent, Math.min(BATCH_SIZE, SLOW_EVENTS - sent));
+    }
+    console.log('✅ Backlog queued');
+    console.log('');
+
+    // Step 3: Send events to the fast receiver while the backlog drains
+    console.log(`3. Sending ${FAST_EVENTS} events to the fast receiver...`);
+    for (let i = 0; i < FAST_EVENTS; i++) {
+      await sendBatch(fastEventType, i, 1);
+      await new Promise(resolve => setTimeout(resolve, FAST_INTERVAL_MS));
+    }
+
+    const deadline = Date.now() + 60000;
+    while (fastReceived.length < FAST_EVENTS && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+    console.log('');
+
+    // Step 4: Report
+    console.log('4. Results');
+    console.log(`   Slow receiver: ${slowReceived.length}/${SLOW_EVENTS} delivered so far`);
+    console.log(`   Fast receiver: ${fastReceived.length}/${FAST_EVENTS} delivered`);
+
+    if (fastReceived.length < FAST_EVENTS) {
+      throw new Error('Fast receiver did not get every event within 60s');
+    }
+
+    const p95 = percentile(fastReceived, 95);
+    console.log(`   Fast latency: p50 ${percentile(fastReceived, 50)}ms, p95 ${p95}ms, max ${Math.max(...fastReceived)}ms`);
+    console.log('');
+
+    if (p95 > MAX_FAST_P95_MS) {
+      throw new Error(`Fast receiver p95 latency ${p95}ms exceeds ${MAX_FAST_P95_MS}ms`);
+    }
+
+    console.log('🎉 The slow receiver\'s backlog did not delay the fast receiver');
+  } catch (error) {
+    console.error('❌ Test failed:', error.message);
+    if (error.response) {
+      console.error('   Response:', error.response.data);
+    }
+    process.exitCode = 1;
+  } finally {
+    for (const subscription of subscriptions) {
+      await axios.delete(`${BASE_URL}/api/v1/admin/subscriptions/${subscription.id}`, { headers: adminHeaders })
+        .catch(error => console.error(`⚠️ Failed to delete subscription ${subscription.id}:`, error.message));
+    }
+    servers.forEach(server => server.close());
+  }
+}
+
+// Run the test
+testFairScheduling().catch(console.error);
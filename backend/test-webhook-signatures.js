@@ -0,0 +1,59 @@
+#!/usr/bin/env node
+
+/**
+ * Webhook Signature Verification Test
+ *
+ * Checks SecurityUtils.verifyWebhookSignature against the headers receivers actually see:
+ * 1. A valid signature, alone and as either half of a rotation header
+ * 2. A signature made with the wrong secret
+ * 3. Malformed signatures of the right length (not hex), which must be rejected rather than throw
+ *
+ * Runs against the compiled code, so run `npm run build` first. No server is needed.
+ */
+
+import { SecurityUtils } from './dist/utils/security.js';
+
+const payload = JSON.stringify({ type: 'test.signature', data: { candidateId: 42 } });
+const secret = SecurityUtils.generateSecretKey();
+const otherSecret = SecurityUtils.generateSecretKey();
+const signature = SecurityUtils.generateWebhookSignature(payload, secret);
+const hexLength = signature.length - 'sha256='.length;
+
+const cases = [
+  { name: 'valid signature', header: signature, expected: true },
+  { name: 'valid signature after a rotation', header: `${signature},${SecurityUtils.generateWebhookSignature(payload, otherSecret)}`, expected: true },
+  { name: 'valid signature before a rotation', header: `${SecurityUtils.generateWebhookSignature(payload, otherSecret)},${signature}`, expected: true },
+  { name: 'wrong secret', header: SecurityUtils.generateWebhookSignature(payload, otherSecret), expected: false },
+  { name: 'non-hex characters', header: `sha256=${'z'.repeat(hexLength)}`, expected: false },
+  { name: 'one bad trailing character', header: `${signature.slice(0, -1)}g`, expected: false },
+  { name: 'base64 of the right length', header: `sha256=${Buffer.from(signature).toString('base64').slice(0, hexLength)}`, expected: false },
+  { name: 'malformed entry next to a valid one', header: `sha256=${'!'.repeat(hexLength)},${signature}`, expected: true },
+  { name: 'missing prefix', header: signature.substring(7), expected: false },
+  { name: 'empty header', header: '', expected: false }
+];
+
+function testWebhookSignatures() {
+  console.log('🧪 Testing Webhook Signature Verification\n');
+
+  let failures = 0;
+  for (const { name, header, expected } of cases) {
+    let result;
+    try {
+      result = SecurityUtils.verifyWebhookSignature(payload, header, secret);
+    } catch (error) {
+      result = `threw ${error.name}: ${error.message}`;
+    }
+
+    if (result === expected) {
+      console.log(`✅ ${name}: ${expected ? 'accepted' : 'rejected'}`);
+    } else {
+      failures++;
+      console.log(`❌ ${name}: expected ${expected ? 'accepted' : 'rejected'}, got ${result}`);
+    }
+  }
+
+  console.log(`\n${failures === 0 ? '🎉' : '❌'} ${cases.length - failures}/${cases.length} signature checks passed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+testWebhookSignatures();
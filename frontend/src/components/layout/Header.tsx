@@ -1,8 +1,23 @@
-import { Bell, Settings, Search, User } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, Settings, Search, User, LogOut } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { apiService, authStorage } from '@/services/api';
 
 export default function Header() {
+  const navigate = useNavigate();
+  const user = authStorage.getUser();
+
+  const handleLogout = async () => {
+    try {
+      await apiService.logout();
+    } catch (error) {
+      console.error('Error signing out:', error);
+    } finally {
+      navigate('/login', { replace: true });
+    }
+  };
+
   return (
     <header className="flex h-20 items-center justify-between border-b border-slate-200 bg-white/80 backdrop-blur-sm px-6 shadow-sm">
       <div className="flex items-center space-x-6">
@@ -36,8 +51,19 @@ export default function Header() {
           <Button variant="ghost" size="icon" className="hover:bg-slate-100">
             <Settings className="h-5 w-5 text-slate-600" />
           </Button>
-          <Button variant="ghost" size="icon" className="hover:bg-slate-100">
-            <User className="h-5 w-5 text-slate-600" />
+        </div>
+
+        {/* Signed-in User */}
+        <div className="flex items-center space-x-3 border-l border-slate-200 pl-4">
+          <div className="w-8 h-8 bg-slate-100 rounded-full flex items-center justify-center">
+            <User className="h-4 w-4 text-slate-600" />
+          </div>
+          <div className="hidden lg:block">
+            <p className="text-sm font-medium text-slate-900">{user?.email}</p>
+            <p className="text-xs text-slate-500 capitalize">{user?.role}</p>
+          </div>
+          <Button variant="ghost" size="icon" className="hover:bg-slate-100" onClick={handleLogout} title="Sign out">
+            <LogOut className="h-5 w-5 text-slate-600" />
           </Button>
         </div>
       </div>
@@ -5,6 +5,7 @@ import {
   LayoutDashboard, 
   FileText, 
   Webhook,
+  Inbox,
   Zap
 } from 'lucide-react';
 
@@ -12,6 +13,7 @@ const navigation = [
   { name: 'Dashboard', href: '/', icon: LayoutDashboard, color: 'from-blue-500 to-indigo-500' },
   { name: 'Subscriptions', href: '/subscriptions', icon: Webhook, color: 'from-green-500 to-emerald-500' },
   { name: 'Delivery Logs', href: '/logs', icon: FileText, color: 'from-purple-500 to-violet-500' },
+  { name: 'Dead Letters', href: '/dead-letters', icon: Inbox, color: 'from-red-500 to-rose-500' },
 ];
 
 export default function Sidebar() {
@@ -0,0 +1,68 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { OutboundAuthInput, OutboundAuthType } from '@/services/api';
+
+interface AuthEditorProps {
+  id: string;
+  value: OutboundAuthInput;
+  onChange: (value: OutboundAuthInput) => void;
+  // The subscription already has a stored secret for this auth type, so the secret field may stay blank
+  hasStoredSecret?: boolean;
+}
+
+export function AuthEditor({ id, value, onChange, hasStoredSecret = false }: AuthEditorProps) {
+  const secretPlaceholder = hasStoredSecret ? 'Leave blank to keep the stored secret' : '';
+
+  const field = (key: keyof OutboundAuthInput, label: string, type = 'text', placeholder = '') => (
+    <div className="space-y-1">
+      <Label htmlFor={`${id}-${key}`} className="text-xs">{label}</Label>
+      <Input
+        id={`${id}-${key}`}
+        type={type}
+        autoComplete="off"
+        placeholder={placeholder}
+        value={(value[key] as string | undefined) || ''}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...value, [key]: e.target.value })}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Endpoint Authentication</Label>
+      <Select value={value.type} onValueChange={(type: string) => onChange({ type: type as OutboundAuthType })}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">None (signature only)</SelectItem>
+          <SelectItem value="bearer">Bearer token</SelectItem>
+          <SelectItem value="basic">Basic auth</SelectItem>
+          <SelectItem value="oauth2_client_credentials">OAuth2 client credentials</SelectItem>
+        </SelectContent>
+      </Select>
+      {value.type === 'bearer' && field('token', 'Token', 'password', secretPlaceholder)}
+      {value.type === 'basic' && (
+        <>
+          {field('username', 'Username')}
+          {field('password', 'Password', 'password', secretPlaceholder)}
+        </>
+      )}
+      {value.type === 'oauth2_client_credentials' && (
+        <>
+          {field('tokenUrl', 'Token URL', 'url', 'https://auth.example.com/oauth/token')}
+          {field('clientId', 'Client ID')}
+          {field('clientSecret', 'Client secret', 'password', secretPlaceholder)}
+          {field('scope', 'Scope (optional)')}
+          {field('audience', 'Audience (optional)')}
+        </>
+      )}
+      {value.type !== 'none' && (
+        <p className="text-xs text-muted-foreground">
+          Secrets are stored encrypted and are never shown again.
+        </p>
+      )}
+    </div>
+  );
+}
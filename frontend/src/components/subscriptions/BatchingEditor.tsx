@@ -0,0 +1,37 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { BatchingForm } from '@/lib/batching';
+
+interface BatchingEditorProps {
+  id: string;
+  value: BatchingForm;
+  onChange: (value: BatchingForm) => void;
+}
+
+export function BatchingEditor({ id, value, onChange }: BatchingEditorProps) {
+  const field = (key: keyof BatchingForm, label: string, placeholder: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={`${id}-${key}`} className="text-xs">{label}</Label>
+      <Input
+        id={`${id}-${key}`}
+        inputMode="decimal"
+        placeholder={placeholder}
+        value={value[key]}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...value, [key]: e.target.value })}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <Label>Batching</Label>
+      <div className="grid grid-cols-2 gap-2">
+        {field('batchMaxSize', 'Max events per request', 'Off')}
+        {field('batchMaxWaitSeconds', 'Max wait (seconds)', 'Default (5)')}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Events are sent as one signed JSON array once the batch is full or the wait is up. Can't be combined with ordered delivery.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import axios from 'axios';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { FlaskConical } from 'lucide-react';
+import { apiService } from '@/services/api';
+import { parseFilterText } from '@/lib/filter';
+import { toast } from 'sonner';
+
+interface FilterEditorProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const FILTER_PLACEHOLDER = `{
+  "and": [
+    { "field": "company.id", "op": "eq", "value": "acme" },
+    { "field": "job.status", "op": "in", "value": ["open", "draft"] }
+  ]
+}`;
+
+export function FilterEditor({ id, value, onChange }: FilterEditorProps) {
+  const [sample, setSample] = useState('');
+  const [result, setResult] = useState<{ matches: boolean } | { errors: string[] } | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  const handleTest = async () => {
+    const { filter, error } = parseFilterText(value);
+    if (error || !filter) {
+      setResult({ errors: [error || 'Enter a filter to test'] });
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(sample);
+    } catch {
+      setResult({ errors: ['Sample payload is not valid JSON'] });
+      return;
+    }
+
+    try {
+      setTesting(true);
+      setResult({ matches: await apiService.previewFilter(filter, { payload }) });
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.data?.code === 'INVALID_FILTER') {
+        setResult({ errors: error.response.data.details });
+      } else {
+        console.error('Error previewing filter:', error);
+        toast.error('Failed to preview filter');
+      }
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Filter (Optional)</Label>
+      <Textarea
+        id={id}
+        className="font-mono text-xs"
+        rows={5}
+        placeholder={FILTER_PLACEHOLDER}
+        value={value}
+        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => {
+          onChange(e.target.value);
+          setResult(null);
+        }}
+      />
+      <p className="text-xs text-muted-foreground">
+        Operators: eq, ne, in, exists, gt, gte, lt, lte. Combine with and / or. Leave blank to receive every event.
+      </p>
+      <Textarea
+        className="font-mono text-xs"
+        rows={3}
+        placeholder='Sample event payload, e.g. { "company": { "id": "acme" }, "job": { "status": "open" } }'
+        value={sample}
+        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => {
+          setSample(e.target.value);
+          setResult(null);
+        }}
+      />
+      <div className="flex items-center space-x-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleTest} disabled={testing || !sample.trim()}>
+          <FlaskConical className="h-3 w-3 mr-1" />
+          Test Filter
+        </Button>
+        {result && 'matches' in result && (
+          result.matches
+            ? <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Matches - would be delivered</Badge>
+            : <Badge className="bg-gray-100 text-gray-800 hover:bg-gray-100">No match - would be skipped</Badge>
+        )}
+      </div>
+      {result && 'errors' in result && (
+        <ul className="text-xs text-red-600 list-disc pl-4">
+          {result.errors.map((error) => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { OrderingForm } from '@/lib/ordering';
+
+interface OrderingEditorProps {
+  id: string;
+  value: OrderingForm;
+  onChange: (value: OrderingForm) => void;
+}
+
+export function OrderingEditor({ id, value, onChange }: OrderingEditorProps) {
+  return (
+    <div className="space-y-2">
+      <Label>Ordering</Label>
+      <div className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          id={`${id}-ordered`}
+          checked={value.orderedDelivery}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...value, orderedDelivery: e.target.checked })}
+        />
+        <Label htmlFor={`${id}-ordered`} className="text-xs">Deliver in order (FIFO)</Label>
+      </div>
+      {value.orderedDelivery && (
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-orderingKey`} className="text-xs">Ordering key (payload field)</Label>
+          <Input
+            id={`${id}-orderingKey`}
+            placeholder="e.g. candidateId; blank orders every event"
+            value={value.orderingKey}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...value, orderingKey: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground">
+            Events with the same key are delivered one at a time, in sequence. A failing delivery only holds up its own key.
+            Each request carries an <code>X-AlgoHire-Sequence</code> header so gaps can be detected.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
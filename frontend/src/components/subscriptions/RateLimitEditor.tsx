@@ -0,0 +1,37 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { RateLimitForm } from '@/lib/rate-limit';
+
+interface RateLimitEditorProps {
+  id: string;
+  value: RateLimitForm;
+  onChange: (value: RateLimitForm) => void;
+}
+
+export function RateLimitEditor({ id, value, onChange }: RateLimitEditorProps) {
+  const field = (key: keyof RateLimitForm, label: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={`${id}-${key}`} className="text-xs">{label}</Label>
+      <Input
+        id={`${id}-${key}`}
+        inputMode="numeric"
+        placeholder="No limit"
+        value={value[key]}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...value, [key]: e.target.value })}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <Label>Rate Limits</Label>
+      <div className="grid grid-cols-2 gap-2">
+        {field('rateLimitPerSecond', 'Requests per second')}
+        {field('maxInFlight', 'Max in-flight requests')}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Applied across all workers. Deliveries over a limit wait their turn without using up retry attempts.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Play } from 'lucide-react';
+import { apiService, type Subscription } from '@/services/api';
+import { toast } from 'sonner';
+
+interface ResumeDialogProps {
+  subscription: Subscription | null;
+  onClose: () => void;
+  onResumed: () => void;
+}
+
+export function ResumeDialog({ subscription, onClose, onResumed }: ResumeDialogProps) {
+  const [releaseSince, setReleaseSince] = useState('');
+  const [working, setWorking] = useState(false);
+
+  const handleClose = () => {
+    setReleaseSince('');
+    onClose();
+  };
+
+  const handleResume = async () => {
+    if (!subscription) return;
+
+    // datetime-local has no zone; read it as local time and send it as UTC
+    const since = releaseSince ? new Date(releaseSince).toISOString() : undefined;
+    if (since && !confirm(`Deliveries held since before ${new Date(since).toLocaleString()} will be dead-lettered instead of sent. Continue?`)) return;
+
+    try {
+      setWorking(true);
+      const { released, skipped } = await apiService.resumeSubscription(subscription.id, since);
+      toast.success(`Subscription resumed; released ${released} held deliveries` + (skipped ? `, skipped ${skipped}` : ''));
+      onResumed();
+      handleClose();
+    } catch (error) {
+      console.error('Error resuming subscription:', error);
+      toast.error('Failed to resume subscription');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!subscription} onOpenChange={(open: boolean) => !open && handleClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Resume Subscription</DialogTitle>
+          <DialogDescription>
+            {subscription?.targetUrl}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="text-sm text-muted-foreground space-y-1">
+            <p>Paused: {subscription?.pausedAt ? new Date(subscription.pausedAt).toLocaleString() : 'Unknown'}</p>
+            <p>Held deliveries: {subscription?.circuitBreaker.heldDeliveries ?? 0}</p>
+            {subscription && subscription.circuitBreaker.state !== 'closed' && (
+              <p>Circuit breaker is {subscription.circuitBreaker.state.replace('_', '-')}: held deliveries stay held until a probe succeeds or the breaker is reset.</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="releaseSince">Release deliveries since (optional)</Label>
+            <Input
+              id="releaseSince"
+              type="datetime-local"
+              value={releaseSince}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReleaseSince(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Leave empty to send everything held, oldest first. Older deliveries go to dead letters and can be requeued from there.
+            </p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleResume} disabled={working}>
+            <Play className="h-3 w-3 mr-1" />
+            Resume
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,75 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { BackoffStrategy } from '@/services/api';
+import type { RetryPolicyForm } from '@/lib/retry-policy';
+
+interface RetryPolicyEditorProps {
+  id: string;
+  value: RetryPolicyForm;
+  onChange: (value: RetryPolicyForm) => void;
+}
+
+export function RetryPolicyEditor({ id, value, onChange }: RetryPolicyEditorProps) {
+  const field = (key: Exclude<keyof RetryPolicyForm, 'custom' | 'backoff'>, label: string, placeholder = '') => (
+    <div className="space-y-1">
+      <Label htmlFor={`${id}-${key}`} className="text-xs">{label}</Label>
+      <Input
+        id={`${id}-${key}`}
+        inputMode="decimal"
+        placeholder={placeholder}
+        value={value[key]}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...value, [key]: e.target.value })}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <Label>Retries &amp; Timeout</Label>
+      {field('timeoutSeconds', 'Request timeout (seconds)', 'Default (30)')}
+      <div className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          id={`${id}-custom`}
+          checked={value.custom}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...value, custom: e.target.checked })}
+        />
+        <Label htmlFor={`${id}-custom`} className="text-xs">Custom retry policy</Label>
+      </div>
+      {value.custom ? (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            {field('maxAttempts', 'Max attempts')}
+            <div className="space-y-1">
+              <Label htmlFor={`${id}-backoff`} className="text-xs">Backoff</Label>
+              <Select value={value.backoff} onValueChange={(backoff: string) => onChange({ ...value, backoff: backoff as BackoffStrategy })}>
+                <SelectTrigger id={`${id}-backoff`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="exponential">Exponential</SelectItem>
+                  <SelectItem value="fixed">Fixed</SelectItem>
+                  <SelectItem value="schedule">Schedule</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {value.backoff === 'schedule' ? (
+            field('scheduleSeconds', 'Delay before each retry (seconds, comma-separated; the last repeats)', '10, 60, 600, 3600')
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              {field('delaySeconds', value.backoff === 'exponential' ? 'First delay (seconds)' : 'Delay (seconds)')}
+              {value.backoff === 'exponential' && field('maxDelaySeconds', 'Max delay (seconds)', 'No cap')}
+            </div>
+          )}
+          {field('maxRetryWindowHours', 'Stop retrying after (hours)', 'No limit')}
+        </>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Uses the relay defaults: exponential backoff from 2 seconds, up to the configured max attempts.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Copy, Eye, KeyRound } from 'lucide-react';
+import { apiService, authStorage, type Subscription, type SubscriptionSecret } from '@/services/api';
+import { toast } from 'sonner';
+
+interface SecretDialogProps {
+  subscription: Subscription | null;
+  onClose: () => void;
+  onRotated: () => void;
+}
+
+export function SecretDialog({ subscription, onClose, onRotated }: SecretDialogProps) {
+  const [gracePeriodHours, setGracePeriodHours] = useState('24');
+  const [secret, setSecret] = useState<SubscriptionSecret | null>(null);
+  const [working, setWorking] = useState(false);
+  const canRotate = authStorage.hasRole('operator');
+  const canReveal = authStorage.hasRole('admin');
+
+  const handleClose = () => {
+    setSecret(null);
+    onClose();
+  };
+
+  const handleRotate = async () => {
+    if (!subscription) return;
+
+    const hours = Number(gracePeriodHours);
+    const warning = hours === 0
+      ? 'The current secret stops working immediately.'
+      : `The current secret keeps signing for ${hours} hours.`;
+    if (!confirm(`Rotate the signing secret? ${warning}`)) return;
+
+    try {
+      setWorking(true);
+      setSecret(await apiService.rotateSecret(subscription.id, hours));
+      toast.success('Signing secret rotated');
+      onRotated();
+    } catch (error) {
+      console.error('Error rotating secret:', error);
+      toast.error('Failed to rotate signing secret');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleReveal = async () => {
+    if (!subscription) return;
+
+    try {
+      setWorking(true);
+      setSecret(await apiService.revealSecret(subscription.id));
+    } catch (error) {
+      console.error('Error revealing secret:', error);
+      toast.error('Failed to reveal signing secret');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCopy = async (value: string) => {
+    await navigator.clipboard.writeText(value);
+    toast.success('Secret copied to clipboard');
+  };
+
+  const previousExpiresAt = secret?.previousSecretExpiresAt || subscription?.previousSecretExpiresAt;
+  const rotatedAt = secret?.secretRotatedAt || subscription?.secretRotatedAt;
+
+  return (
+    <Dialog open={!!subscription} onOpenChange={(open: boolean) => !open && handleClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Signing Secret</DialogTitle>
+          <DialogDescription>
+            {subscription?.targetUrl}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="text-sm text-muted-foreground space-y-1">
+            <p>Last rotated: {rotatedAt ? new Date(rotatedAt).toLocaleString() : 'Never'}</p>
+            {previousExpiresAt && new Date(previousExpiresAt) > new Date() && (
+              <p>Previous secret still signs until {new Date(previousExpiresAt).toLocaleString()}</p>
+            )}
+          </div>
+
+          {secret && (
+            <div className="space-y-2">
+              <Label htmlFor="secretKey">Current secret</Label>
+              <div className="flex items-center space-x-2">
+                <Input id="secretKey" readOnly value={secret.secretKey} className="font-mono text-xs" />
+                <Button variant="outline" size="sm" onClick={() => handleCopy(secret.secretKey)}>
+                  <Copy className="h-3 w-3" />
+                </Button>
+              </div>
+              {secret.standardWebhooksSecret && (
+                <>
+                  <Label htmlFor="standardWebhooksSecret">Standard Webhooks secret</Label>
+                  <div className="flex items-center space-x-2">
+                    <Input id="standardWebhooksSecret" readOnly value={secret.standardWebhooksSecret} className="font-mono text-xs" />
+                    <Button variant="outline" size="sm" onClick={() => handleCopy(secret.standardWebhooksSecret!)}>
+                      <Copy className="h-3 w-3" />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Same key in whsec_ form, for Standard Webhooks verification libraries.
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="gracePeriodHours">Grace period (hours)</Label>
+            <div className="flex items-center space-x-2">
+              <Input
+                id="gracePeriodHours"
+                type="number"
+                min={0}
+                max={168}
+                value={gracePeriodHours}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setGracePeriodHours(e.target.value)}
+                className="w-28"
+              />
+              <Button onClick={handleRotate} disabled={!canRotate || working} size="sm">
+                <KeyRound className="h-3 w-3 mr-1" />
+                Rotate Secret
+              </Button>
+              <Button onClick={handleReveal} disabled={!canReveal || working} variant="outline" size="sm">
+                <Eye className="h-3 w-3 mr-1" />
+                Reveal
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Use 0 when a secret has leaked. Revealing a secret is recorded in the audit log.
+            </p>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
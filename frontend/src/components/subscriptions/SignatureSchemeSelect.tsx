@@ -0,0 +1,31 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { SignatureScheme } from '@/services/api';
+
+interface SignatureSchemeSelectProps {
+  id: string;
+  value: SignatureScheme;
+  onChange: (scheme: SignatureScheme) => void;
+}
+
+export function SignatureSchemeSelect({ id, value, onChange }: SignatureSchemeSelectProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Signature Scheme</Label>
+      <Select value={value} onValueChange={(scheme: string) => onChange(scheme as SignatureScheme)}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="legacy">Legacy (X-AlgoHire-Signature)</SelectItem>
+          <SelectItem value="standard_webhooks">Standard Webhooks (webhook-signature)</SelectItem>
+          <SelectItem value="ed25519">Ed25519 (public key from /.well-known/jwks.json)</SelectItem>
+          <SelectItem value="none">None (authenticated by outbound auth only)</SelectItem>
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">
+        Standard Webhooks and Ed25519 add webhook-id, webhook-timestamp and webhook-signature headers; legacy headers are sent with every scheme. None sends no signature and requires outbound auth.
+      </p>
+    </div>
+  );
+}
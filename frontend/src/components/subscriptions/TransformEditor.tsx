@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import axios from 'axios';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Eye } from 'lucide-react';
+import { apiService, type TransformErrorMode } from '@/services/api';
+import { parseTransformText } from '@/lib/transform';
+import { toast } from 'sonner';
+
+interface TransformEditorProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  errorMode: TransformErrorMode;
+  onErrorModeChange: (mode: TransformErrorMode) => void;
+}
+
+const TRANSFORM_PLACEHOLDER = `{
+  "text": "New candidate {{ payload.name }} applied to {{ payload.job.title }}",
+  "source": "{{ payload.source ?? \\"ats\\" }}"
+}`;
+
+export function TransformEditor({ id, value, onChange, errorMode, onErrorModeChange }: TransformEditorProps) {
+  const [eventId, setEventId] = useState('');
+  const [result, setResult] = useState<{ body: unknown } | { errors: string[] } | null>(null);
+  const [rendering, setRendering] = useState(false);
+
+  const handlePreview = async () => {
+    const { transform, error } = parseTransformText(value);
+    if (error) {
+      setResult({ errors: [error] });
+      return;
+    }
+
+    try {
+      setRendering(true);
+      setResult({ body: await apiService.previewTransform(transform, eventId.trim()) });
+    } catch (error) {
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+      if (data?.code === 'INVALID_TRANSFORM') {
+        setResult({ errors: data.details });
+      } else if (data?.code === 'TRANSFORM_ERROR' || data?.code === 'EVENT_NOT_FOUND') {
+        setResult({ errors: [data.error] });
+      } else {
+        console.error('Error previewing transform:', error);
+        toast.error('Failed to preview transform');
+      }
+    } finally {
+      setRendering(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Transform (Optional)</Label>
+      <Textarea
+        id={id}
+        className="font-mono text-xs"
+        rows={5}
+        placeholder={TRANSFORM_PLACEHOLDER}
+        value={value}
+        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => {
+          onChange(e.target.value);
+          setResult(null);
+        }}
+      />
+      <p className="text-xs text-muted-foreground">
+        JSON body with <code>{'{{ path }}'}</code> placeholders from id, eventType, payload, receivedAt and idempotencyKey. Leave blank to send the standard envelope.
+      </p>
+      <div className="flex items-center space-x-2">
+        <Label className="text-xs whitespace-nowrap">If it fails</Label>
+        <Select value={errorMode} onValueChange={(mode: string) => onErrorModeChange(mode as TransformErrorMode)}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="fail">Fail the delivery</SelectItem>
+            <SelectItem value="send_original">Send the standard envelope</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Input
+          className="h-8 text-xs"
+          placeholder="Stored event ID to preview against"
+          value={eventId}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+            setEventId(e.target.value);
+            setResult(null);
+          }}
+        />
+        <Button type="button" variant="outline" size="sm" onClick={handlePreview} disabled={rendering || !eventId.trim()}>
+          <Eye className="h-3 w-3 mr-1" />
+          Preview
+        </Button>
+      </div>
+      {result && 'body' in result && (
+        <pre className="max-h-40 overflow-auto rounded-md bg-slate-50 p-3 text-xs">
+          {JSON.stringify(result.body, null, 2)}
+        </pre>
+      )}
+      {result && 'errors' in result && (
+        <ul className="text-xs text-red-600 list-disc pl-4">
+          {result.errors.map((error) => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+// Form state for batched delivery; a blank size turns batching off and a blank wait uses the server default
+export interface BatchingForm {
+  batchMaxSize: string;
+  batchMaxWaitSeconds: string;
+}
+
+export const EMPTY_BATCHING_FORM: BatchingForm = { batchMaxSize: '', batchMaxWaitSeconds: '' };
+
+// Fill the form from a subscription's stored settings
+export function batchingForm(batchMaxSize: number | null, batchMaxWaitMs: number | null): BatchingForm {
+  return {
+    batchMaxSize: batchMaxSize != null ? String(batchMaxSize) : '',
+    batchMaxWaitSeconds: batchMaxWaitMs != null ? String(batchMaxWaitMs / 1000) : '',
+  };
+}
+
+// Turn the form into API values; the server validates ranges
+export function batchingPayload(form: BatchingForm): {
+  batchMaxSize: number | null;
+  batchMaxWaitMs: number | null;
+  error?: string;
+} {
+  const batchMaxSize = form.batchMaxSize.trim() ? Number(form.batchMaxSize) : null;
+  const waitSeconds = form.batchMaxWaitSeconds.trim() ? Number(form.batchMaxWaitSeconds) : null;
+  if (Number.isNaN(batchMaxSize) || Number.isNaN(waitSeconds)) {
+    return { batchMaxSize: null, batchMaxWaitMs: null, error: 'Batch size and wait must be numbers' };
+  }
+  return {
+    batchMaxSize,
+    batchMaxWaitMs: batchMaxSize !== null && waitSeconds !== null ? Math.round(waitSeconds * 1000) : null,
+  };
+}
@@ -0,0 +1,28 @@
+import type { ClientCertificateInput } from '@/services/api';
+
+// Form state for the client certificate fields; `remove` clears the stored certificate
+export interface ClientCertificateForm extends ClientCertificateInput {
+  remove?: boolean;
+}
+
+export const EMPTY_CERTIFICATE_FORM: ClientCertificateForm = { certificate: '', privateKey: '', caBundle: '' };
+
+// Turn the form into the API value: undefined leaves the stored certificate alone, null removes it
+export function certificatePayload(form: ClientCertificateForm): ClientCertificateInput | null | undefined {
+  if (form.remove) {
+    return null;
+  }
+  if (!form.certificate.trim() && !form.privateKey.trim()) {
+    return undefined;
+  }
+  return {
+    certificate: form.certificate,
+    privateKey: form.privateKey,
+    ...(form.caBundle?.trim() && { caBundle: form.caBundle }),
+  };
+}
+
+// Whole days until a certificate expires; negative once it has
+export function daysUntil(date: string): number {
+  return Math.floor((new Date(date).getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+}
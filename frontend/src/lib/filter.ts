@@ -0,0 +1,18 @@
+import type { SubscriptionFilter } from '@/services/api';
+
+// Parse the filter textarea; blank means no filter
+export function parseFilterText(text: string): { filter: SubscriptionFilter | null; error?: string } {
+  if (!text.trim()) {
+    return { filter: null };
+  }
+
+  try {
+    const filter = JSON.parse(text);
+    if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
+      return { filter: null, error: 'Filter must be a JSON object' };
+    }
+    return { filter };
+  } catch {
+    return { filter: null, error: 'Filter is not valid JSON' };
+  }
+}
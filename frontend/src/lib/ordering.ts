@@ -0,0 +1,20 @@
+// Form state for ordered delivery; a blank ordering key orders the whole subscription
+export interface OrderingForm {
+  orderedDelivery: boolean;
+  orderingKey: string;
+}
+
+export const DEFAULT_ORDERING_FORM: OrderingForm = { orderedDelivery: false, orderingKey: '' };
+
+// Fill the form from a subscription's stored settings
+export function orderingForm(orderedDelivery: boolean, orderingKey: string | null): OrderingForm {
+  return { orderedDelivery, orderingKey: orderingKey ?? '' };
+}
+
+// Turn the form into API values
+export function orderingPayload(form: OrderingForm): { orderedDelivery: boolean; orderingKey: string | null } {
+  return {
+    orderedDelivery: form.orderedDelivery,
+    orderingKey: form.orderingKey.trim() || null,
+  };
+}
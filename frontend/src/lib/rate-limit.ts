@@ -0,0 +1,29 @@
+// Form state for the per-subscription limits; blank means no limit
+export interface RateLimitForm {
+  rateLimitPerSecond: string;
+  maxInFlight: string;
+}
+
+export const EMPTY_RATE_LIMIT_FORM: RateLimitForm = { rateLimitPerSecond: '', maxInFlight: '' };
+
+// Fill the form from a subscription's stored limits
+export function rateLimitForm(rateLimitPerSecond: number | null, maxInFlight: number | null): RateLimitForm {
+  return {
+    rateLimitPerSecond: rateLimitPerSecond != null ? String(rateLimitPerSecond) : '',
+    maxInFlight: maxInFlight != null ? String(maxInFlight) : '',
+  };
+}
+
+// Turn the form into API values; the server validates ranges
+export function rateLimitPayload(form: RateLimitForm): {
+  rateLimitPerSecond: number | null;
+  maxInFlight: number | null;
+  error?: string;
+} {
+  const rateLimitPerSecond = form.rateLimitPerSecond.trim() ? Number(form.rateLimitPerSecond) : null;
+  const maxInFlight = form.maxInFlight.trim() ? Number(form.maxInFlight) : null;
+  if (Number.isNaN(rateLimitPerSecond) || Number.isNaN(maxInFlight)) {
+    return { rateLimitPerSecond: null, maxInFlight: null, error: 'Rate limits must be numbers' };
+  }
+  return { rateLimitPerSecond, maxInFlight };
+}
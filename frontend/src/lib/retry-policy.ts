@@ -0,0 +1,74 @@
+import type { BackoffStrategy, RetryPolicy } from '@/services/api';
+
+// Form state for the retry policy fields, in seconds and hours; `custom` off means the relay defaults
+export interface RetryPolicyForm {
+  custom: boolean;
+  maxAttempts: string;
+  backoff: BackoffStrategy;
+  delaySeconds: string;
+  maxDelaySeconds: string;
+  scheduleSeconds: string;
+  maxRetryWindowHours: string;
+  timeoutSeconds: string;
+}
+
+export const DEFAULT_RETRY_POLICY_FORM: RetryPolicyForm = {
+  custom: false,
+  maxAttempts: '3',
+  backoff: 'exponential',
+  delaySeconds: '2',
+  maxDelaySeconds: '',
+  scheduleSeconds: '',
+  maxRetryWindowHours: '',
+  timeoutSeconds: '',
+};
+
+// Fill the form from a subscription's stored settings
+export function retryPolicyForm(retryPolicy: RetryPolicy | null, timeoutMs: number | null): RetryPolicyForm {
+  const timeoutSeconds = timeoutMs != null ? String(timeoutMs / 1000) : '';
+  if (!retryPolicy) {
+    return { ...DEFAULT_RETRY_POLICY_FORM, timeoutSeconds };
+  }
+  return {
+    custom: true,
+    maxAttempts: String(retryPolicy.maxAttempts),
+    backoff: retryPolicy.backoff,
+    delaySeconds: String(retryPolicy.delayMs / 1000),
+    maxDelaySeconds: retryPolicy.maxDelayMs != null ? String(retryPolicy.maxDelayMs / 1000) : '',
+    scheduleSeconds: retryPolicy.scheduleMs?.map(delay => delay / 1000).join(', ') || '',
+    maxRetryWindowHours: retryPolicy.maxRetryWindowMs != null ? String(retryPolicy.maxRetryWindowMs / 3600000) : '',
+    timeoutSeconds,
+  };
+}
+
+// Turn the form into API values; the server validates ranges
+export function retryPolicyPayload(form: RetryPolicyForm): {
+  retryPolicy: RetryPolicy | null;
+  timeoutMs: number | null;
+  error?: string;
+} {
+  const toMs = (value: string, unitMs: number) => (value.trim() ? Math.round(Number(value) * unitMs) : undefined);
+
+  const timeoutMs = toMs(form.timeoutSeconds, 1000) ?? null;
+  if (!form.custom) {
+    return { retryPolicy: null, timeoutMs };
+  }
+
+  const scheduleMs = form.backoff === 'schedule'
+    ? form.scheduleSeconds.split(',').map(delay => delay.trim()).filter(Boolean).map(delay => Math.round(Number(delay) * 1000))
+    : undefined;
+  const retryPolicy: RetryPolicy = {
+    maxAttempts: Number(form.maxAttempts),
+    backoff: form.backoff,
+    delayMs: toMs(form.delaySeconds, 1000) ?? 0,
+    maxDelayMs: form.backoff === 'exponential' ? toMs(form.maxDelaySeconds, 1000) : undefined,
+    scheduleMs,
+    maxRetryWindowMs: toMs(form.maxRetryWindowHours, 3600000),
+  };
+
+  const numbers = [retryPolicy.maxAttempts, retryPolicy.delayMs, retryPolicy.maxDelayMs, retryPolicy.maxRetryWindowMs, timeoutMs, ...(scheduleMs || [])];
+  if (numbers.some(value => value != null && Number.isNaN(value))) {
+    return { retryPolicy: null, timeoutMs: null, error: 'Retry policy values must be numbers' };
+  }
+  return { retryPolicy, timeoutMs };
+}
@@ -0,0 +1,12 @@
+// Parse the transform textarea; blank means send the standard envelope
+export function parseTransformText(text: string): { transform: unknown; error?: string } {
+  if (!text.trim()) {
+    return { transform: null };
+  }
+
+  try {
+    return { transform: JSON.parse(text) };
+  } catch {
+    return { transform: null, error: 'Transform is not valid JSON' };
+  }
+}
@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Activity, Webhook, FileText, CheckCircle, RefreshCw } from 'lucide-react';
+import { Activity, Webhook, FileText, CheckCircle, RefreshCw, AlertTriangle } from 'lucide-react';
 import { apiService, type SystemStats, type DeliveryLog } from '@/services/api';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
@@ -48,8 +48,11 @@ export default function Dashboard() {
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'success': return 'bg-green-500';
-      case 'failed': return 'bg-red-500';
+      case 'succeeded': return 'bg-green-500';
+      case 'exhausted': return 'bg-red-500';
+      case 'retrying': return 'bg-orange-500';
+      case 'held': return 'bg-gray-400';
+      case 'waiting': return 'bg-gray-400';
       case 'pending': return 'bg-yellow-500';
       default: return 'bg-gray-500';
     }
@@ -57,8 +60,11 @@ export default function Dashboard() {
 
   const getStatusText = (status: string) => {
     switch (status) {
-      case 'success': return 'Delivered successfully';
-      case 'failed': return 'Delivery failed';
+      case 'succeeded': return 'Delivered successfully';
+      case 'exhausted': return 'Delivery failed after all retries';
+      case 'retrying': return 'Delivery retrying';
+      case 'held': return 'Delivery held by circuit breaker';
+      case 'waiting': return 'Delivery waiting for an earlier one with the same ordering key';
       case 'pending': return 'Delivery pending';
       default: return 'Unknown status';
     }
@@ -112,6 +118,35 @@ export default function Dashboard() {
           </Button>
         </div>
 
+        {/* Certificate expiry warning */}
+        {stats && stats.clientCertificates.expiringSoon > 0 && (
+          <div className="flex items-center space-x-3 rounded-lg border border-amber-200 bg-amber-50 p-4 text-amber-900 shadow-sm">
+            <AlertTriangle className="h-5 w-5 flex-shrink-0 text-amber-600" />
+            <p className="text-sm font-medium">
+              {stats.clientCertificates.expiringSoon} active subscription{stats.clientCertificates.expiringSoon === 1 ? ' has an mTLS client certificate' : 's have mTLS client certificates'} expired or expiring within {stats.clientCertificates.warningDays} days. Upload replacements on the Subscriptions page.
+            </p>
+          </div>
+        )}
+
+        {/* Open circuit breakers */}
+        {stats && stats.subscriptions.openCircuitBreakers > 0 && (
+          <div className="flex items-center space-x-3 rounded-lg border border-red-200 bg-red-50 p-4 text-red-900 shadow-sm">
+            <AlertTriangle className="h-5 w-5 flex-shrink-0 text-red-600" />
+            <p className="text-sm font-medium">
+              {stats.subscriptions.openCircuitBreakers} subscription{stats.subscriptions.openCircuitBreakers === 1 ? ' has its' : 's have their'} circuit breaker open; {stats.deliveries.held} deliveries are held until the endpoints recover.
+            </p>
+          </div>
+        )}
+
+        {stats && stats.subscriptions.paused > 0 && (
+          <div className="flex items-center space-x-3 rounded-lg border border-amber-200 bg-amber-50 p-4 text-amber-900 shadow-sm">
+            <AlertTriangle className="h-5 w-5 flex-shrink-0 text-amber-600" />
+            <p className="text-sm font-medium">
+              {stats.subscriptions.paused} subscription{stats.subscriptions.paused === 1 ? ' is' : 's are'} paused; their deliveries are held until resumed.
+            </p>
+          </div>
+        )}
+
         {/* Statistics Cards */}
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
           <Card className="group hover:shadow-xl transition-all duration-300 transform hover:-translate-y-1 bg-white/80 backdrop-blur-sm border-0 shadow-lg">
@@ -177,7 +212,7 @@ export default function Dashboard() {
                 {stats?.deliveries.failed || '0'}
               </div>
               <p className="text-sm text-slate-500">
-                {stats?.deliveries.pending || '0'} pending deliveries
+                {stats?.deliveries.pending || '0'} pending, {stats?.deliveries.retrying || '0'} retrying
               </p>
             </CardContent>
           </Card>
@@ -0,0 +1,454 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  type ColumnDef,
+  flexRender,
+  getCoreRowModel,
+  useReactTable,
+  getPaginationRowModel,
+  getSortedRowModel,
+  type SortingState,
+} from '@tanstack/react-table';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RefreshCw, RotateCcw, Search, Trash2, Eye } from 'lucide-react';
+import { apiService, authStorage, type DeadLetter, type DeadLetterDetail } from '@/services/api';
+import { toast } from 'sonner';
+
+export default function DeadLetters() {
+  const [deadLetters, setDeadLetters] = useState<DeadLetter[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [sorting, setSorting] = useState<SortingState>([]);
+  const [eventTypeFilter, setEventTypeFilter] = useState('');
+  const [appliedEventType, setAppliedEventType] = useState('');
+  const [pagination, setPagination] = useState({
+    pageIndex: 0,
+    pageSize: 20,
+  });
+  const [selectedDeadLetter, setSelectedDeadLetter] = useState<DeadLetterDetail | null>(null);
+  const canRequeue = authStorage.hasRole('operator');
+  const canPurge = authStorage.hasRole('admin');
+
+  const fetchDeadLetters = useCallback(async () => {
+    try {
+      setRefreshing(true);
+      const response = await apiService.getDeadLetters({
+        page: pagination.pageIndex + 1,
+        limit: pagination.pageSize,
+        eventType: appliedEventType || undefined,
+      });
+      setDeadLetters(response.deadLetters);
+      setTotal(response.pagination.total);
+    } catch (error) {
+      console.error('Error fetching dead letters:', error);
+      toast.error('Failed to fetch dead letters');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [pagination.pageIndex, pagination.pageSize, appliedEventType]);
+
+  useEffect(() => {
+    fetchDeadLetters();
+  }, [fetchDeadLetters]);
+
+  const handleInspect = async (deadLetterId: string) => {
+    try {
+      setSelectedDeadLetter(await apiService.getDeadLetter(deadLetterId));
+    } catch (error) {
+      console.error('Error fetching dead letter:', error);
+      toast.error('Failed to fetch dead letter');
+    }
+  };
+
+  const handleRequeue = useCallback(async (deadLetterId: string) => {
+    try {
+      await apiService.requeueDeadLetter(deadLetterId);
+      toast.success('Delivery requeued');
+      fetchDeadLetters();
+    } catch (error) {
+      console.error('Error requeuing dead letter:', error);
+      toast.error('Failed to requeue delivery');
+    }
+  }, [fetchDeadLetters]);
+
+  const handlePurge = useCallback(async (deadLetterId: string) => {
+    if (!confirm('Permanently purge this dead letter?')) return;
+
+    try {
+      await apiService.purgeDeadLetter(deadLetterId);
+      toast.success('Dead letter purged');
+      fetchDeadLetters();
+    } catch (error) {
+      console.error('Error purging dead letter:', error);
+      toast.error('Failed to purge dead letter');
+    }
+  }, [fetchDeadLetters]);
+
+  // Bulk actions apply to the event type filter when set, otherwise to every dead letter
+  const bulkScope = () => (appliedEventType ? { eventType: appliedEventType } : { all: true as const });
+
+  const handleRequeueAll = async () => {
+    const target = appliedEventType ? `all ${appliedEventType} dead letters` : 'ALL dead letters';
+    if (!confirm(`Requeue ${target}?`)) return;
+
+    try {
+      const result = await apiService.requeueDeadLetters(bulkScope());
+      toast.success(`Requeued ${result.requeued} deliveries${result.skipped ? `, skipped ${result.skipped} for inactive subscriptions` : ''}`);
+      fetchDeadLetters();
+    } catch (error) {
+      console.error('Error requeuing dead letters:', error);
+      toast.error('Failed to requeue dead letters');
+    }
+  };
+
+  const handlePurgeAll = async () => {
+    const target = appliedEventType ? `all ${appliedEventType} dead letters` : 'ALL dead letters';
+    if (!confirm(`Permanently purge ${target}?`)) return;
+
+    try {
+      const result = await apiService.purgeDeadLetters(bulkScope());
+      toast.success(`Purged ${result.purged} dead letters`);
+      fetchDeadLetters();
+    } catch (error) {
+      console.error('Error purging dead letters:', error);
+      toast.error('Failed to purge dead letters');
+    }
+  };
+
+  const formatTimeAgo = (dateString: string) => {
+    const date = new Date(dateString);
+    const now = new Date();
+    const diffInMinutes = Math.floor((now.getTime() - date.getTime()) / (1000 * 60));
+
+    if (diffInMinutes < 1) return 'Just now';
+    if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
+    const diffInHours = Math.floor(diffInMinutes / 60);
+    if (diffInHours < 24) return `${diffInHours}h ago`;
+    const diffInDays = Math.floor(diffInHours / 24);
+    return `${diffInDays}d ago`;
+  };
+
+  const columns: ColumnDef<DeadLetter>[] = useMemo(
+    () => [
+      {
+        accessorKey: 'event.event_type',
+        header: 'Event Type',
+        cell: ({ row }) => <span className="font-medium">{row.original.event.event_type}</span>,
+      },
+      {
+        accessorKey: 'subscription.target_url',
+        header: 'Target URL',
+        cell: ({ row }) => {
+          const url = row.original.subscription.target_url;
+          return (
+            <div className="max-w-[260px] truncate" title={url}>
+              {url}
+            </div>
+          );
+        },
+      },
+      {
+        accessorKey: 'finalError',
+        header: 'Final Error',
+        cell: ({ row }) => {
+          const { finalError, finalStatusCode } = row.original;
+          return (
+            <div className="flex items-center space-x-2">
+              {finalStatusCode ? <Badge variant="destructive">{finalStatusCode}</Badge> : null}
+              <span className="max-w-[240px] truncate text-sm text-muted-foreground" title={finalError}>
+                {finalError || '-'}
+              </span>
+            </div>
+          );
+        },
+      },
+      {
+        accessorKey: 'attemptCount',
+        header: 'Attempts',
+        cell: ({ row }) => <span className="font-medium">{row.getValue('attemptCount') as number}</span>,
+      },
+      {
+        accessorKey: 'deadLetteredAt',
+        header: 'Dead-lettered',
+        cell: ({ row }) => {
+          const date = new Date(row.getValue('deadLetteredAt'));
+          return (
+            <div>
+              <div className="text-sm">{date.toLocaleString()}</div>
+              <div className="text-xs text-muted-foreground">
+                {formatTimeAgo(row.getValue('deadLetteredAt'))}
+              </div>
+            </div>
+          );
+        },
+      },
+      {
+        id: 'actions',
+        header: 'Actions',
+        cell: ({ row }) => {
+          const deadLetter = row.original;
+          return (
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" size="sm" onClick={() => handleInspect(deadLetter.id)} className="h-8">
+                <Eye className="h-3 w-3 mr-1" />
+                Inspect
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRequeue(deadLetter.id)}
+                disabled={!canRequeue || !deadLetter.subscription.is_active}
+                className="h-8"
+              >
+                <RotateCcw className="h-3 w-3 mr-1" />
+                Requeue
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handlePurge(deadLetter.id)}
+                disabled={!canPurge}
+                className="h-8 text-red-600 hover:text-red-700"
+              >
+                <Trash2 className="h-3 w-3 mr-1" />
+                Purge
+              </Button>
+            </div>
+          );
+        },
+      },
+    ],
+    [canRequeue, canPurge, handleRequeue, handlePurge]
+  );
+
+  const table = useReactTable({
+    data: deadLetters,
+    columns,
+    pageCount: Math.ceil(total / pagination.pageSize),
+    manualPagination: true,
+    getCoreRowModel: getCoreRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    onSortingChange: setSorting,
+    onPaginationChange: setPagination,
+    state: {
+      sorting,
+      pagination,
+    },
+  });
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Dead Letters</h1>
+          <p className="text-muted-foreground">
+            Deliveries that exhausted all retries
+          </p>
+        </div>
+        <div className="flex items-center justify-center h-64">
+          <RefreshCw className="h-8 w-8 animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Dead Letters</h1>
+          <p className="text-muted-foreground">
+            Deliveries that exhausted all retries
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button
+            onClick={fetchDeadLetters}
+            disabled={refreshing}
+            variant="outline"
+            size="sm"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button onClick={handleRequeueAll} disabled={!canRequeue || total === 0} size="sm">
+            <RotateCcw className="h-4 w-4 mr-2" />
+            {appliedEventType ? 'Requeue Matching' : 'Requeue All'}
+          </Button>
+          <Button onClick={handlePurgeAll} disabled={!canPurge || total === 0} variant="destructive" size="sm">
+            <Trash2 className="h-4 w-4 mr-2" />
+            {appliedEventType ? 'Purge Matching' : 'Purge All'}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Dead-Letter Queue</CardTitle>
+          <CardDescription>
+            {total} deliveries waiting for inspection, requeue or purge
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="flex items-center space-x-4 mb-4"
+            onSubmit={(event: React.FormEvent<HTMLFormElement>) => {
+              event.preventDefault();
+              setPagination({ ...pagination, pageIndex: 0 });
+              setAppliedEventType(eventTypeFilter.trim());
+            }}
+          >
+            <div className="flex-1">
+              <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Filter by event type, e.g. candidate.updated"
+                  value={eventTypeFilter}
+                  onChange={(event: React.ChangeEvent<HTMLInputElement>) => setEventTypeFilter(event.target.value)}
+                  className="pl-8"
+                />
+              </div>
+            </div>
+            <Button type="submit" variant="outline" size="sm">
+              Apply Filter
+            </Button>
+          </form>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                {table.getHeaderGroups().map((headerGroup) => (
+                  <TableRow key={headerGroup.id}>
+                    {headerGroup.headers.map((header) => (
+                      <TableHead key={header.id}>
+                        {header.isPlaceholder
+                          ? null
+                          : flexRender(
+                              header.column.columnDef.header,
+                              header.getContext()
+                            )}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableHeader>
+              <TableBody>
+                {table.getRowModel().rows?.length ? (
+                  table.getRowModel().rows.map((row) => (
+                    <TableRow key={row.id}>
+                      {row.getVisibleCells().map((cell) => (
+                        <TableCell key={cell.id}>
+                          {flexRender(
+                            cell.column.columnDef.cell,
+                            cell.getContext()
+                          )}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell
+                      colSpan={columns.length}
+                      className="h-24 text-center"
+                    >
+                      No dead letters. Every delivery is accounted for.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex items-center justify-between space-x-2 py-4">
+            <div className="flex-1 text-sm text-muted-foreground">
+              Page {pagination.pageIndex + 1} of {Math.max(table.getPageCount(), 1)}
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => table.previousPage()}
+                disabled={!table.getCanPreviousPage()}
+              >
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => table.nextPage()}
+                disabled={!table.getCanNextPage()}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Inspect Dialog */}
+      <Dialog open={!!selectedDeadLetter} onOpenChange={(open: boolean) => !open && setSelectedDeadLetter(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Dead Letter</DialogTitle>
+            <DialogDescription>
+              {selectedDeadLetter?.event.eventType} to {selectedDeadLetter?.subscription.target_url}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedDeadLetter && (
+            <div className="space-y-4">
+              <div>
+                <h4 className="text-sm font-semibold mb-1">Final Error</h4>
+                <p className="text-sm text-muted-foreground">
+                  {selectedDeadLetter.finalStatusCode ? `${selectedDeadLetter.finalStatusCode} - ` : ''}
+                  {selectedDeadLetter.finalError || 'Unknown error'}
+                </p>
+              </div>
+              <div>
+                <h4 className="text-sm font-semibold mb-1">Payload</h4>
+                <pre className="max-h-40 overflow-auto rounded-md bg-slate-50 p-3 text-xs">
+                  {JSON.stringify(selectedDeadLetter.event.payload, null, 2)}
+                </pre>
+              </div>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>#</TableHead>
+                      <TableHead>Started</TableHead>
+                      <TableHead>Duration</TableHead>
+                      <TableHead>Response</TableHead>
+                      <TableHead>Error</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selectedDeadLetter.attempts.map((attempt) => (
+                      <TableRow key={attempt.id}>
+                        <TableCell className="font-medium">{attempt.attemptNumber}</TableCell>
+                        <TableCell className="text-sm">{new Date(attempt.startedAt).toLocaleString()}</TableCell>
+                        <TableCell className="text-sm">{attempt.durationMs}ms</TableCell>
+                        <TableCell className="text-sm">{attempt.responseStatusCode || '-'}</TableCell>
+                        <TableCell>
+                          <div className="max-w-[240px] truncate text-xs text-muted-foreground" title={attempt.errorMessage}>
+                            {attempt.errorMessage || '-'}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -16,8 +16,9 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { RefreshCw, RotateCcw, Search, Filter } from 'lucide-react';
-import { apiService, type DeliveryLog } from '@/services/api';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RefreshCw, RotateCcw, Search, Filter, History } from 'lucide-react';
+import { apiService, authStorage, type DeliveryClassification, type DeliveryLog } from '@/services/api';
 import { toast } from 'sonner';
 
 export default function DeliveryLogs() {
@@ -31,6 +32,8 @@ export default function DeliveryLogs() {
     pageIndex: 0,
     pageSize: 20,
   });
+  const canRetry = authStorage.hasRole('operator');
+  const [selectedLog, setSelectedLog] = useState<DeliveryLog | null>(null);
 
   const fetchLogs = async () => {
     try {
@@ -66,6 +69,16 @@ export default function DeliveryLogs() {
     }
   };
 
+  const handleViewAttempts = async (logId: string) => {
+    try {
+      const log = await apiService.getDeliveryLog(logId);
+      setSelectedLog(log);
+    } catch (error) {
+      console.error('Error fetching delivery attempts:', error);
+      toast.error('Failed to fetch delivery attempts');
+    }
+  };
+
   const formatTimeAgo = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -81,6 +94,16 @@ export default function DeliveryLogs() {
 
   const getStatusBadge = (status: string) => {
     switch (status) {
+      case 'succeeded':
+        return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Succeeded</Badge>;
+      case 'exhausted':
+        return <Badge className="bg-red-100 text-red-800 hover:bg-red-100">Exhausted</Badge>;
+      case 'retrying':
+        return <Badge className="bg-orange-100 text-orange-800 hover:bg-orange-100">Retrying</Badge>;
+      case 'held':
+        return <Badge className="bg-gray-100 text-gray-800 hover:bg-gray-100" title="Held while the subscription's circuit breaker is open">Held</Badge>;
+      case 'waiting':
+        return <Badge className="bg-gray-100 text-gray-800 hover:bg-gray-100" title="Waiting for an earlier delivery with the same ordering key">Waiting</Badge>;
       case 'success':
         return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Success</Badge>;
       case 'failed':
@@ -92,12 +115,40 @@ export default function DeliveryLogs() {
     }
   };
 
+  const getClassificationBadge = (classification?: DeliveryClassification) => {
+    switch (classification) {
+      case 'non_retryable':
+        return <Badge variant="outline" className="border-red-300 text-red-700">Non-retryable</Badge>;
+      case 'gone':
+        return <Badge variant="outline" className="border-red-300 text-red-700" title="Endpoint returned 410 Gone; the subscription was deactivated">Gone</Badge>;
+      case 'retryable':
+        return <Badge variant="outline" className="border-orange-300 text-orange-700">Retryable</Badge>;
+      default:
+        return null;
+    }
+  };
+
   const columns: ColumnDef<DeliveryLog>[] = useMemo(
     () => [
       {
         accessorKey: 'status',
         header: 'Status',
-        cell: ({ row }) => getStatusBadge(row.getValue('status')),
+        cell: ({ row }) => (
+          <div className="flex flex-wrap gap-1">
+            {getStatusBadge(row.getValue('status'))}
+            {getClassificationBadge(row.original.classification)}
+            {row.original.sequence != null && (
+              <Badge variant="outline" title={row.original.orderingKey ? `Ordering key ${row.original.orderingKey}` : 'Ordered delivery'}>
+                #{row.original.sequence}
+              </Badge>
+            )}
+            {row.original.batchId && (
+              <Badge variant="outline" title={`Sent in batch ${row.original.batchId}`}>
+                Batch
+              </Badge>
+            )}
+          </div>
+        ),
         filterFn: (row, _id, value) => {
           return value.includes(row.getValue('status'));
         },
@@ -170,21 +221,32 @@ export default function DeliveryLogs() {
         cell: ({ row }) => {
           const log = row.original;
           return (
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => handleRetry(log.id)}
-              disabled={log.status === 'success' || !log.subscription.is_active}
-              className="h-8"
-            >
-              <RotateCcw className="h-3 w-3 mr-1" />
-              Retry
-            </Button>
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleViewAttempts(log.id)}
+                className="h-8"
+              >
+                <History className="h-3 w-3 mr-1" />
+                Attempts
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRetry(log.id)}
+                disabled={log.status !== 'exhausted' || !log.subscription.is_active || !canRetry}
+                className="h-8"
+              >
+                <RotateCcw className="h-3 w-3 mr-1" />
+                Retry
+              </Button>
+            </div>
           );
         },
       },
     ],
-    []
+    [canRetry]
   );
 
   const table = useReactTable({
@@ -274,8 +336,9 @@ export default function DeliveryLogs() {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="success">Success</SelectItem>
-                <SelectItem value="failed">Failed</SelectItem>
+                <SelectItem value="succeeded">Succeeded</SelectItem>
+                <SelectItem value="exhausted">Exhausted</SelectItem>
+                <SelectItem value="retrying">Retrying</SelectItem>
                 <SelectItem value="pending">Pending</SelectItem>
               </SelectContent>
             </Select>
@@ -355,6 +418,66 @@ export default function DeliveryLogs() {
           </div>
         </CardContent>
       </Card>
+
+      {/* Attempt History Dialog */}
+      <Dialog open={!!selectedLog} onOpenChange={(open: boolean) => !open && setSelectedLog(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Delivery Attempts</DialogTitle>
+            <DialogDescription>
+              {selectedLog?.event.event_type} to {selectedLog?.subscription.target_url}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Response</TableHead>
+                  <TableHead>Next Retry</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selectedLog?.attempts?.length ? (
+                  selectedLog.attempts.map((attempt) => (
+                    <TableRow key={attempt.id}>
+                      <TableCell className="font-medium">{attempt.attemptNumber}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {getStatusBadge(attempt.status)}
+                          {getClassificationBadge(attempt.classification)}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">{new Date(attempt.startedAt).toLocaleString()}</TableCell>
+                      <TableCell className="text-sm">{attempt.durationMs}ms</TableCell>
+                      <TableCell>
+                        <div className="text-sm">{attempt.responseStatusCode || '-'}</div>
+                        {attempt.errorMessage && (
+                          <div className="max-w-[220px] truncate text-xs text-muted-foreground" title={attempt.errorMessage}>
+                            {attempt.errorMessage}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {attempt.nextRetryAt ? new Date(attempt.nextRetryAt).toLocaleString() : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-16 text-center">
+                      No attempts yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
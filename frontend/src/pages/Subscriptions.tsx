@@ -18,10 +18,31 @@ import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
-import { RefreshCw, Plus, Search, Filter, Edit, Trash2 } from 'lucide-react';
-import { apiService, type Subscription, type CreateSubscriptionData } from '@/services/api';
+import { RefreshCw, Plus, Search, Filter, Edit, Trash2, KeyRound, ShieldCheck, RotateCcw, Pause, Play } from 'lucide-react';
+import { apiService, authStorage, type Subscription, type CreateSubscriptionData, type OutboundAuthInput } from '@/services/api';
+import { FilterEditor } from '@/components/subscriptions/FilterEditor';
+import { TransformEditor } from '@/components/subscriptions/TransformEditor';
+import { SignatureSchemeSelect } from '@/components/subscriptions/SignatureSchemeSelect';
+import { AuthEditor } from '@/components/subscriptions/AuthEditor';
+import { ClientCertificateEditor } from '@/components/subscriptions/ClientCertificateEditor';
+import { RetryPolicyEditor } from '@/components/subscriptions/RetryPolicyEditor';
+import { RateLimitEditor } from '@/components/subscriptions/RateLimitEditor';
+import { OrderingEditor } from '@/components/subscriptions/OrderingEditor';
+import { BatchingEditor } from '@/components/subscriptions/BatchingEditor';
+import { certificatePayload, daysUntil, EMPTY_CERTIFICATE_FORM, type ClientCertificateForm } from '@/lib/certificate';
+import { DEFAULT_RETRY_POLICY_FORM, retryPolicyForm, retryPolicyPayload, type RetryPolicyForm } from '@/lib/retry-policy';
+import { EMPTY_RATE_LIMIT_FORM, rateLimitForm, rateLimitPayload, type RateLimitForm } from '@/lib/rate-limit';
+import { DEFAULT_ORDERING_FORM, orderingForm, orderingPayload, type OrderingForm } from '@/lib/ordering';
+import { EMPTY_BATCHING_FORM, batchingForm, batchingPayload, type BatchingForm } from '@/lib/batching';
+import { SecretDialog } from '@/components/subscriptions/SecretDialog';
+import { ResumeDialog } from '@/components/subscriptions/ResumeDialog';
+import { parseFilterText } from '@/lib/filter';
+import { parseTransformText } from '@/lib/transform';
 import { toast } from 'sonner';
 
+// Comma-separated event types or patterns; empty entries are dropped on submit
+const parseEventTypes = (value: string) => value.split(',').map((eventType) => eventType.trim());
+
 export default function Subscriptions() {
   const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
   const [loading, setLoading] = useState(true);
@@ -36,12 +57,34 @@ export default function Subscriptions() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingSubscription, setEditingSubscription] = useState<Subscription | null>(null);
+  const [secretSubscription, setSecretSubscription] = useState<Subscription | null>(null);
+  const [resumeSubscription, setResumeSubscription] = useState<Subscription | null>(null);
   const [createForm, setCreateForm] = useState<CreateSubscriptionData>({
-    eventType: '',
+    eventTypes: [],
     targetUrl: '',
     description: '',
+    transformOnError: 'fail',
+    signatureScheme: 'legacy',
+    auth: { type: 'none' },
   });
   const [editForm, setEditForm] = useState<Partial<Subscription>>({});
+  const [createFilterText, setCreateFilterText] = useState('');
+  const [editFilterText, setEditFilterText] = useState('');
+  const [createTransformText, setCreateTransformText] = useState('');
+  const [editTransformText, setEditTransformText] = useState('');
+  const [editAuth, setEditAuth] = useState<OutboundAuthInput>({ type: 'none' });
+  const [createCertificate, setCreateCertificate] = useState<ClientCertificateForm>(EMPTY_CERTIFICATE_FORM);
+  const [editCertificate, setEditCertificate] = useState<ClientCertificateForm>(EMPTY_CERTIFICATE_FORM);
+  const [createRetryPolicy, setCreateRetryPolicy] = useState<RetryPolicyForm>(DEFAULT_RETRY_POLICY_FORM);
+  const [editRetryPolicy, setEditRetryPolicy] = useState<RetryPolicyForm>(DEFAULT_RETRY_POLICY_FORM);
+  const [createRateLimit, setCreateRateLimit] = useState<RateLimitForm>(EMPTY_RATE_LIMIT_FORM);
+  const [editRateLimit, setEditRateLimit] = useState<RateLimitForm>(EMPTY_RATE_LIMIT_FORM);
+  const [createOrdering, setCreateOrdering] = useState<OrderingForm>(DEFAULT_ORDERING_FORM);
+  const [editOrdering, setEditOrdering] = useState<OrderingForm>(DEFAULT_ORDERING_FORM);
+  const [createBatching, setCreateBatching] = useState<BatchingForm>(EMPTY_BATCHING_FORM);
+  const [editBatching, setEditBatching] = useState<BatchingForm>(EMPTY_BATCHING_FORM);
+  const canEdit = authStorage.hasRole('operator');
+  const canDelete = authStorage.hasRole('admin');
 
   const fetchSubscriptions = async () => {
     try {
@@ -67,35 +110,138 @@ export default function Subscriptions() {
 
   const handleCreateSubscription = async () => {
     try {
-      if (!createForm.eventType || !createForm.targetUrl) {
+      const eventTypes = createForm.eventTypes.filter(Boolean);
+      if (eventTypes.length === 0 || !createForm.targetUrl) {
         toast.error('Event type and target URL are required');
         return;
       }
 
-      await apiService.createSubscription(createForm);
-      toast.success('Subscription created successfully');
+      const { filter, error: filterError } = parseFilterText(createFilterText);
+      if (filterError) {
+        toast.error(filterError);
+        return;
+      }
+
+      const { transform, error: transformError } = parseTransformText(createTransformText);
+      if (transformError) {
+        toast.error(transformError);
+        return;
+      }
+
+      const { retryPolicy, timeoutMs, error: retryPolicyError } = retryPolicyPayload(createRetryPolicy);
+      if (retryPolicyError) {
+        toast.error(retryPolicyError);
+        return;
+      }
+
+      const { rateLimitPerSecond, maxInFlight, error: rateLimitError } = rateLimitPayload(createRateLimit);
+      if (rateLimitError) {
+        toast.error(rateLimitError);
+        return;
+      }
+
+      const { batchMaxSize, batchMaxWaitMs, error: batchingError } = batchingPayload(createBatching);
+      if (batchingError) {
+        toast.error(batchingError);
+        return;
+      }
+
+      const created = await apiService.createSubscription({
+        ...createForm,
+        eventTypes,
+        filter,
+        transform,
+        clientCertificate: certificatePayload(createCertificate),
+        retryPolicy,
+        timeoutMs,
+        rateLimitPerSecond,
+        maxInFlight,
+        ...orderingPayload(createOrdering),
+        batchMaxSize,
+        batchMaxWaitMs,
+      });
+      if (created.verificationStatus === 'verified') {
+        toast.success('Subscription created successfully');
+      } else {
+        toast.warning(`Subscription created, but its endpoint isn't verified yet: ${created.verificationError || 'challenge pending'}`);
+      }
       setIsCreateDialogOpen(false);
-      setCreateForm({ eventType: '', targetUrl: '', description: '' });
+      setCreateForm({ eventTypes: [], targetUrl: '', description: '', transformOnError: 'fail', signatureScheme: 'legacy', auth: { type: 'none' } });
+      setCreateFilterText('');
+      setCreateTransformText('');
+      setCreateCertificate(EMPTY_CERTIFICATE_FORM);
+      setCreateRetryPolicy(DEFAULT_RETRY_POLICY_FORM);
+      setCreateRateLimit(EMPTY_RATE_LIMIT_FORM);
+      setCreateOrdering(DEFAULT_ORDERING_FORM);
+      setCreateBatching(EMPTY_BATCHING_FORM);
       fetchSubscriptions();
     } catch (error: any) {
       console.error('Error creating subscription:', error);
-      toast.error(error.response?.data?.error || 'Failed to create subscription');
+      toast.error(error.response?.data?.details?.[0] || error.response?.data?.error || 'Failed to create subscription');
     }
   };
 
   const handleUpdateSubscription = async () => {
     if (!editingSubscription) return;
 
+    const { filter, error: filterError } = parseFilterText(editFilterText);
+    if (filterError) {
+      toast.error(filterError);
+      return;
+    }
+
+    const { transform, error: transformError } = parseTransformText(editTransformText);
+    if (transformError) {
+      toast.error(transformError);
+      return;
+    }
+
+    const { retryPolicy, timeoutMs, error: retryPolicyError } = retryPolicyPayload(editRetryPolicy);
+    if (retryPolicyError) {
+      toast.error(retryPolicyError);
+      return;
+    }
+
+    const { rateLimitPerSecond, maxInFlight, error: rateLimitError } = rateLimitPayload(editRateLimit);
+    if (rateLimitError) {
+      toast.error(rateLimitError);
+      return;
+    }
+
+    const { batchMaxSize, batchMaxWaitMs, error: batchingError } = batchingPayload(editBatching);
+    if (batchingError) {
+      toast.error(batchingError);
+      return;
+    }
+
     try {
-      await apiService.updateSubscription(editingSubscription.id, editForm);
-      toast.success('Subscription updated successfully');
+      const updated = await apiService.updateSubscription(editingSubscription.id, {
+        ...editForm,
+        eventTypes: editForm.eventTypes?.filter(Boolean),
+        filter,
+        transform,
+        auth: editAuth,
+        clientCertificate: certificatePayload(editCertificate),
+        retryPolicy,
+        timeoutMs,
+        rateLimitPerSecond,
+        maxInFlight,
+        ...orderingPayload(editOrdering),
+        batchMaxSize,
+        batchMaxWaitMs,
+      });
+      if (updated.verificationStatus === 'verified') {
+        toast.success('Subscription updated successfully');
+      } else {
+        toast.warning(`Subscription updated; the new endpoint isn't verified yet: ${updated.verificationError || 'challenge pending'}`);
+      }
       setIsEditDialogOpen(false);
       setEditingSubscription(null);
       setEditForm({});
       fetchSubscriptions();
     } catch (error: any) {
       console.error('Error updating subscription:', error);
-      toast.error(error.response?.data?.error || 'Failed to update subscription');
+      toast.error(error.response?.data?.details?.[0] || error.response?.data?.error || 'Failed to update subscription');
     }
   };
 
@@ -115,10 +261,20 @@ export default function Subscriptions() {
   const handleEditClick = (subscription: Subscription) => {
     setEditingSubscription(subscription);
     setEditForm({
-      eventType: subscription.eventType,
+      eventTypes: subscription.eventTypes,
       targetUrl: subscription.targetUrl,
       isActive: subscription.isActive,
+      transformOnError: subscription.transformOnError,
+      signatureScheme: subscription.signatureScheme,
     });
+    setEditFilterText(subscription.filter ? JSON.stringify(subscription.filter, null, 2) : '');
+    setEditTransformText(subscription.transform != null ? JSON.stringify(subscription.transform, null, 2) : '');
+    setEditAuth({ type: subscription.authType, ...subscription.authParams });
+    setEditCertificate(EMPTY_CERTIFICATE_FORM);
+    setEditRetryPolicy(retryPolicyForm(subscription.retryPolicy, subscription.timeoutMs));
+    setEditRateLimit(rateLimitForm(subscription.rateLimitPerSecond, subscription.maxInFlight));
+    setEditOrdering(orderingForm(subscription.orderedDelivery, subscription.orderingKey));
+    setEditBatching(batchingForm(subscription.batchMaxSize, subscription.batchMaxWaitMs));
     setIsEditDialogOpen(true);
   };
 
@@ -135,6 +291,74 @@ export default function Subscriptions() {
     return `${diffInDays}d ago`;
   };
 
+  const handleResendVerification = async (subscriptionId: string) => {
+    try {
+      const result = await apiService.resendVerification(subscriptionId);
+      if (result.verificationStatus === 'verified') {
+        toast.success('Endpoint verified');
+      } else {
+        toast.error(result.verificationError || 'Endpoint did not echo the challenge');
+      }
+      fetchSubscriptions();
+    } catch (error) {
+      console.error('Error resending verification challenge:', error);
+      toast.error('Failed to send verification challenge');
+    }
+  };
+
+  const handleResetCircuitBreaker = async (subscriptionId: string) => {
+    try {
+      const released = await apiService.resetCircuitBreaker(subscriptionId);
+      toast.success(`Circuit breaker reset; released ${released} held deliveries`);
+      fetchSubscriptions();
+    } catch (error) {
+      console.error('Error resetting circuit breaker:', error);
+      toast.error('Failed to reset circuit breaker');
+    }
+  };
+
+  const handlePauseSubscription = async (subscriptionId: string) => {
+    if (!confirm('Pause this subscription? New events are held, not delivered, until it is resumed.')) return;
+
+    try {
+      await apiService.pauseSubscription(subscriptionId);
+      toast.success('Subscription paused');
+      fetchSubscriptions();
+    } catch (error) {
+      console.error('Error pausing subscription:', error);
+      toast.error('Failed to pause subscription');
+    }
+  };
+
+  const getCircuitBreakerBadge = (subscription: Subscription) => {
+    const { state, consecutiveFailures, heldDeliveries, nextProbeAt } = subscription.circuitBreaker;
+    if (state === 'closed') {
+      return null;
+    }
+    const details = `${consecutiveFailures} consecutive failures, ${heldDeliveries ?? 0} deliveries held` +
+      (nextProbeAt ? `, next probe ${new Date(nextProbeAt).toLocaleString()}` : '');
+    return (
+      <Badge className="bg-red-100 text-red-800 hover:bg-red-100" title={details}>
+        {state === 'open' ? 'Circuit open' : 'Probing'}
+        {heldDeliveries ? ` · ${heldDeliveries} held` : ''}
+      </Badge>
+    );
+  };
+
+  const getVerificationBadge = (subscription: Subscription) => {
+    if (subscription.verificationStatus === 'pending_verification') {
+      return <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">Pending verification</Badge>;
+    }
+    if (subscription.verificationStatus === 'verification_failed') {
+      return (
+        <Badge className="bg-red-100 text-red-800 hover:bg-red-100" title={subscription.verificationError}>
+          Unverified
+        </Badge>
+      );
+    }
+    return null;
+  };
+
   const getStatusBadge = (isActive: boolean) => {
     return isActive ? (
       <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Active</Badge>
@@ -146,14 +370,32 @@ export default function Subscriptions() {
   const columns: ColumnDef<Subscription>[] = useMemo(
     () => [
       {
-        accessorKey: 'eventType',
-        header: 'Event Type',
+        accessorKey: 'eventTypes',
+        header: 'Event Types',
         cell: ({ row }) => {
-          const eventType = row.getValue('eventType') as string;
-          return <span className="font-medium">{eventType}</span>;
+          const eventTypes = row.getValue('eventTypes') as string[];
+          return (
+            <div className="flex flex-wrap gap-1">
+              {eventTypes.map((eventType) => (
+                <Badge key={eventType} variant="outline" className="font-medium">
+                  {eventType}
+                </Badge>
+              ))}
+              {row.original.filter && (
+                <Badge variant="secondary" title={JSON.stringify(row.original.filter)}>
+                  Filtered
+                </Badge>
+              )}
+              {row.original.transform != null && (
+                <Badge variant="secondary" title={JSON.stringify(row.original.transform)}>
+                  Transformed
+                </Badge>
+              )}
+            </div>
+          );
         },
         filterFn: (row, _id, value) => {
-          return value.includes(row.getValue('eventType'));
+          return (row.getValue('eventTypes') as string[]).some((eventType) => value.includes(eventType));
         },
       },
       {
@@ -161,9 +403,25 @@ export default function Subscriptions() {
         header: 'Target URL',
         cell: ({ row }) => {
           const url = row.getValue('targetUrl') as string;
+          const certificate = row.original.clientCertificate;
           return (
-            <div className="max-w-[300px] truncate" title={url}>
-              {url}
+            <div className="space-y-1">
+              <div className="max-w-[300px] truncate" title={url}>
+                {url}
+              </div>
+              {certificate && (
+                <Badge
+                  variant="outline"
+                  className={certificate.expiringSoon ? 'border-amber-300 bg-amber-50 text-amber-800' : ''}
+                  title={`${certificate.subject}, expires ${new Date(certificate.expiresAt).toLocaleString()}`}
+                >
+                  {certificate.expiringSoon
+                    ? daysUntil(certificate.expiresAt) < 0
+                      ? 'mTLS cert expired'
+                      : `mTLS cert expires in ${daysUntil(certificate.expiresAt)}d`
+                    : 'mTLS'}
+                </Badge>
+              )}
             </div>
           );
         },
@@ -171,7 +429,37 @@ export default function Subscriptions() {
       {
         accessorKey: 'isActive',
         header: 'Status',
-        cell: ({ row }) => getStatusBadge(row.getValue('isActive')),
+        cell: ({ row }) => (
+          <div className="flex flex-wrap gap-1">
+            {getStatusBadge(row.getValue('isActive'))}
+            {getVerificationBadge(row.original)}
+            {row.original.isActive && getCircuitBreakerBadge(row.original)}
+            {row.original.isActive && row.original.pausedAt && (
+              <Badge
+                className="bg-amber-100 text-amber-800 hover:bg-amber-100"
+                title={`Paused ${new Date(row.original.pausedAt).toLocaleString()}; deliveries are held until it is resumed`}
+              >
+                Paused
+                {row.original.circuitBreaker.heldDeliveries ? ` · ${row.original.circuitBreaker.heldDeliveries} held` : ''}
+              </Badge>
+            )}
+            {!row.original.isActive && row.original.deactivationReason && (
+              <Badge variant="outline" className="border-red-300 text-red-700" title={row.original.deactivationReason}>
+                Auto-deactivated
+              </Badge>
+            )}
+            {row.original.orderedDelivery && (
+              <Badge variant="outline" title={row.original.orderingKey ? `Ordered per ${row.original.orderingKey}` : 'Every event delivered in order'}>
+                Ordered
+              </Badge>
+            )}
+            {row.original.batchMaxSize != null && (
+              <Badge variant="outline" title={`Up to ${row.original.batchMaxSize} events per request`}>
+                Batched
+              </Badge>
+            )}
+          </div>
+        ),
         filterFn: (row, _id, value) => {
           return value.includes(row.getValue('isActive'));
         },
@@ -210,15 +498,79 @@ export default function Subscriptions() {
                 variant="outline"
                 size="sm"
                 onClick={() => handleEditClick(subscription)}
+                disabled={!canEdit}
                 className="h-8"
               >
                 <Edit className="h-3 w-3 mr-1" />
                 Edit
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setSecretSubscription(subscription)}
+                disabled={!canEdit}
+                className="h-8"
+              >
+                <KeyRound className="h-3 w-3 mr-1" />
+                Secret
+              </Button>
+              {subscription.verificationStatus !== 'verified' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleResendVerification(subscription.id)}
+                  disabled={!canEdit}
+                  className="h-8"
+                  title="Send a new challenge to the endpoint"
+                >
+                  <ShieldCheck className="h-3 w-3 mr-1" />
+                  Verify
+                </Button>
+              )}
+              {subscription.isActive && !subscription.pausedAt && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handlePauseSubscription(subscription.id)}
+                  disabled={!canEdit}
+                  className="h-8"
+                  title="Hold deliveries, e.g. during the endpoint's maintenance window"
+                >
+                  <Pause className="h-3 w-3 mr-1" />
+                  Pause
+                </Button>
+              )}
+              {subscription.isActive && subscription.pausedAt && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setResumeSubscription(subscription)}
+                  disabled={!canEdit}
+                  className="h-8"
+                  title="Resume delivery and release held deliveries"
+                >
+                  <Play className="h-3 w-3 mr-1" />
+                  Resume
+                </Button>
+              )}
+              {subscription.isActive && !subscription.pausedAt && subscription.circuitBreaker.state !== 'closed' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleResetCircuitBreaker(subscription.id)}
+                  disabled={!canEdit}
+                  className="h-8"
+                  title="Close the circuit breaker and release held deliveries"
+                >
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  Reset
+                </Button>
+              )}
               <Button
                 variant="outline"
                 size="sm"
                 onClick={() => handleDeleteSubscription(subscription.id)}
+                disabled={!canDelete}
                 className="h-8 text-red-600 hover:text-red-700"
               >
                 <Trash2 className="h-3 w-3 mr-1" />
@@ -229,7 +581,7 @@ export default function Subscriptions() {
         },
       },
     ],
-    []
+    [canEdit, canDelete]
   );
 
   const table = useReactTable({
@@ -288,12 +640,12 @@ export default function Subscriptions() {
           </Button>
           <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
             <DialogTrigger asChild>
-              <Button size="sm">
+              <Button size="sm" disabled={!canEdit}>
                 <Plus className="h-4 w-4 mr-2" />
                 Create Subscription
               </Button>
             </DialogTrigger>
-            <DialogContent>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Create New Subscription</DialogTitle>
                 <DialogDescription>
@@ -302,13 +654,16 @@ export default function Subscriptions() {
               </DialogHeader>
               <div className="space-y-4 py-4">
                 <div className="space-y-2">
-                  <Label htmlFor="eventType">Event Type</Label>
+                  <Label htmlFor="eventType">Event Types</Label>
                   <Input
                     id="eventType"
-                    placeholder="e.g., user.created, order.updated"
-                    value={createForm.eventType}
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCreateForm({ ...createForm, eventType: e.target.value })}
+                    placeholder="e.g., user.created, order.*, *.deleted"
+                    value={createForm.eventTypes.join(', ')}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCreateForm({ ...createForm, eventTypes: parseEventTypes(e.target.value) })}
                   />
+                  <p className="text-xs text-muted-foreground">
+                    Comma-separated. <code>*</code> matches one segment; <code>*</code> on its own matches every event.
+                  </p>
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="targetUrl">Target URL</Label>
@@ -328,6 +683,29 @@ export default function Subscriptions() {
                     onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCreateForm({ ...createForm, description: e.target.value })}
                   />
                 </div>
+                <FilterEditor id="filter" value={createFilterText} onChange={setCreateFilterText} />
+                <TransformEditor
+                  id="transform"
+                  value={createTransformText}
+                  onChange={setCreateTransformText}
+                  errorMode={createForm.transformOnError || 'fail'}
+                  onErrorModeChange={(transformOnError) => setCreateForm({ ...createForm, transformOnError })}
+                />
+                <SignatureSchemeSelect
+                  id="signatureScheme"
+                  value={createForm.signatureScheme || 'legacy'}
+                  onChange={(signatureScheme) => setCreateForm({ ...createForm, signatureScheme })}
+                />
+                <AuthEditor
+                  id="auth"
+                  value={createForm.auth || { type: 'none' }}
+                  onChange={(auth) => setCreateForm({ ...createForm, auth })}
+                />
+                <ClientCertificateEditor id="clientCertificate" value={createCertificate} onChange={setCreateCertificate} />
+                <RetryPolicyEditor id="retryPolicy" value={createRetryPolicy} onChange={setCreateRetryPolicy} />
+                <RateLimitEditor id="rateLimit" value={createRateLimit} onChange={setCreateRateLimit} />
+                <OrderingEditor id="ordering" value={createOrdering} onChange={setCreateOrdering} />
+                <BatchingEditor id="batching" value={createBatching} onChange={setCreateBatching} />
               </div>
               <DialogFooter>
                 <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
@@ -457,7 +835,7 @@ export default function Subscriptions() {
 
       {/* Edit Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Subscription</DialogTitle>
             <DialogDescription>
@@ -466,11 +844,11 @@ export default function Subscriptions() {
           </DialogHeader>
           <div className="space-y-4 py-4">
             <div className="space-y-2">
-              <Label htmlFor="editEventType">Event Type</Label>
+              <Label htmlFor="editEventType">Event Types</Label>
               <Input
                 id="editEventType"
-                value={editForm.eventType || ''}
-                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditForm({ ...editForm, eventType: e.target.value })}
+                value={editForm.eventTypes?.join(', ') || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditForm({ ...editForm, eventTypes: parseEventTypes(e.target.value) })}
               />
             </div>
             <div className="space-y-2">
@@ -481,6 +859,35 @@ export default function Subscriptions() {
                 onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditForm({ ...editForm, targetUrl: e.target.value })}
               />
             </div>
+            <FilterEditor id="editFilter" value={editFilterText} onChange={setEditFilterText} />
+            <TransformEditor
+              id="editTransform"
+              value={editTransformText}
+              onChange={setEditTransformText}
+              errorMode={editForm.transformOnError || 'fail'}
+              onErrorModeChange={(transformOnError) => setEditForm({ ...editForm, transformOnError })}
+            />
+            <SignatureSchemeSelect
+              id="editSignatureScheme"
+              value={editForm.signatureScheme || 'legacy'}
+              onChange={(signatureScheme) => setEditForm({ ...editForm, signatureScheme })}
+            />
+            <AuthEditor
+              id="editAuth"
+              value={editAuth}
+              onChange={setEditAuth}
+              hasStoredSecret={editingSubscription?.authType === editAuth.type && editAuth.type !== 'none'}
+            />
+            <ClientCertificateEditor
+              id="editClientCertificate"
+              value={editCertificate}
+              onChange={setEditCertificate}
+              current={editingSubscription?.clientCertificate}
+            />
+            <RetryPolicyEditor id="editRetryPolicy" value={editRetryPolicy} onChange={setEditRetryPolicy} />
+            <RateLimitEditor id="editRateLimit" value={editRateLimit} onChange={setEditRateLimit} />
+            <OrderingEditor id="editOrdering" value={editOrdering} onChange={setEditOrdering} />
+            <BatchingEditor id="editBatching" value={editBatching} onChange={setEditBatching} />
             <div className="flex items-center space-x-2">
               <input
                 type="checkbox"
@@ -502,6 +909,20 @@ export default function Subscriptions() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Secret Dialog */}
+      <SecretDialog
+        subscription={secretSubscription}
+        onClose={() => setSecretSubscription(null)}
+        onRotated={fetchSubscriptions}
+      />
+
+      {/* Resume Dialog */}
+      <ResumeDialog
+        subscription={resumeSubscription}
+        onClose={() => setResumeSubscription(null)}
+        onResumed={fetchSubscriptions}
+      />
     </div>
   );
 }
@@ -1,6 +1,10 @@
 import axios from 'axios';
 
-const API_BASE_URL = 'http://localhost:8000/api/v1/admin';
+const API_ROOT_URL = 'http://localhost:8000/api/v1';
+const API_BASE_URL = `${API_ROOT_URL}/admin`;
+
+const AUTH_TOKEN_KEY = 'webhook-admin-token';
+const AUTH_USER_KEY = 'webhook-admin-user';
 
 const api = axios.create({
   baseURL: API_BASE_URL,
@@ -10,6 +14,72 @@ const api = axios.create({
 });
 
 // Types
+export type AdminRole = 'viewer' | 'operator' | 'admin';
+
+export interface AdminUser {
+  id: string;
+  email: string;
+  name?: string | null;
+  role: AdminRole;
+}
+
+const ROLE_LEVELS: Record<AdminRole, number> = {
+  viewer: 1,
+  operator: 2,
+  admin: 3,
+};
+
+// Session storage helpers
+export const authStorage = {
+  getToken(): string | null {
+    return localStorage.getItem(AUTH_TOKEN_KEY);
+  },
+
+  getUser(): AdminUser | null {
+    const user = localStorage.getItem(AUTH_USER_KEY);
+    return user ? JSON.parse(user) : null;
+  },
+
+  setSession(token: string, user: AdminUser): void {
+    localStorage.setItem(AUTH_TOKEN_KEY, token);
+    localStorage.setItem(AUTH_USER_KEY, JSON.stringify(user));
+  },
+
+  clear(): void {
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+    localStorage.removeItem(AUTH_USER_KEY);
+  },
+
+  // Check whether the signed-in user holds at least the given role
+  hasRole(role: AdminRole): boolean {
+    const user = authStorage.getUser();
+    return !!user && ROLE_LEVELS[user.role] >= ROLE_LEVELS[role];
+  },
+};
+
+// Attach the session token to every admin request
+api.interceptors.request.use((config) => {
+  const token = authStorage.getToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+// Send the user back to the login page when the session is no longer valid
+api.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    if (error.response?.status === 401) {
+      authStorage.clear();
+      if (window.location.pathname !== '/login') {
+        window.location.assign('/login');
+      }
+    }
+    return Promise.reject(error);
+  }
+);
+
 export interface SystemStats {
   events: {
     total: number;
@@ -18,59 +88,282 @@ export interface SystemStats {
     total: number;
     active: number;
     inactive: number;
+    openCircuitBreakers: number;
+    paused: number;
   };
   deliveries: {
     total: number;
     successful: number;
     failed: number;
     pending: number;
+    retrying: number;
+    held: number;
     successRate: number;
   };
+  deadLetters: {
+    total: number;
+  };
+  outbox: {
+    pending: number;
+  };
+  clientCertificates: {
+    expiringSoon: number;
+    warningDays: number;
+  };
   queue: {
     pending: number;
     processing: number;
   };
 }
 
+// Held: the circuit breaker is open; waiting: an earlier delivery with the same ordering key hasn't finished
+export type DeliveryStatus = 'pending' | 'retrying' | 'held' | 'waiting' | 'succeeded' | 'exhausted';
+
+// Why an attempt was or wasn't retried: transient failures are retried, other 4xx fail fast, 410 deactivates the subscription
+export type DeliveryClassification = 'success' | 'retryable' | 'non_retryable' | 'gone';
+
+export interface DeliveryAttempt {
+  id: string;
+  attemptNumber: number;
+  status: 'success' | 'failed';
+  startedAt: string;
+  durationMs: number;
+  responseStatusCode?: number;
+  responseHeaders?: Record<string, string>;
+  responseBody?: string;
+  errorMessage?: string;
+  classification?: DeliveryClassification;
+  nextRetryAt?: string;
+}
+
 export interface DeliveryLog {
   id: string;
-  status: 'success' | 'failed' | 'pending';
+  status: DeliveryStatus;
   attemptCount: number;
   attemptedAt: string;
+  nextRetryAt?: string;
+  completedAt?: string;
+  createdAt: string;
   responseStatusCode?: number;
   responseBody?: string;
   errorMessage?: string;
+  classification?: DeliveryClassification;
+  orderingKey?: string | null;
+  sequence?: number | null;
+  batchId?: string | null;
   event: {
     id: string;
     event_type: string;
     received_at: string;
   };
   subscription: {
+    id: string;
+    event_types: string[];
+    target_url: string;
+    is_active: boolean;
+  };
+  attempts?: DeliveryAttempt[];
+}
+
+export interface DeadLetter {
+  id: string;
+  deliveryLogId: string;
+  finalError?: string;
+  finalStatusCode?: number;
+  attemptCount: number;
+  deadLetteredAt: string;
+  event: {
     id: string;
     event_type: string;
+    received_at: string;
+  };
+  subscription: {
+    id: string;
+    event_types: string[];
     target_url: string;
     is_active: boolean;
   };
 }
 
+export interface DeadLetterDetail extends Omit<DeadLetter, 'event'> {
+  event: {
+    id: string;
+    eventType: string;
+    idempotencyKey: string;
+    payload: Record<string, unknown>;
+    receivedAt: string;
+  };
+  attempts: DeliveryAttempt[];
+}
+
+export interface DeadLetterFilter {
+  subscriptionId?: string;
+  eventType?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+// Content filter expression, e.g. { "field": "company.id", "op": "eq", "value": "acme" } or { "and": [...] }
+export type SubscriptionFilter = Record<string, unknown>;
+
+// What to do when a transform can't be rendered for an event
+export type TransformErrorMode = 'fail' | 'send_original';
+
+// How deliveries are signed: legacy X-AlgoHire-Signature headers, or Standard Webhooks headers alongside them
+// (HMAC with the subscription secret, or Ed25519 with the relay key published at /.well-known/jwks.json)
+export type SignatureScheme = 'legacy' | 'standard_webhooks' | 'ed25519' | 'none';
+
+// How the relay authenticates to the subscription's endpoint
+export type OutboundAuthType = 'none' | 'bearer' | 'basic' | 'oauth2_client_credentials';
+
+// Non-secret auth settings; tokens, passwords and client secrets are write-only
+export interface OutboundAuthParams {
+  username?: string;
+  tokenUrl?: string;
+  clientId?: string;
+  scope?: string;
+  audience?: string;
+  clientAuthMethod?: 'basic' | 'post';
+}
+
+// Endpoint ownership: only verified subscriptions receive events
+export type VerificationStatus = 'pending_verification' | 'verified' | 'verification_failed';
+
+export interface SubscriptionVerification {
+  id: string;
+  verificationStatus: VerificationStatus;
+  verifiedAt?: string;
+  verificationError?: string;
+}
+
+// How long to wait between delivery attempts: doubling from delayMs, a constant delayMs, or an explicit schedule
+export type BackoffStrategy = 'exponential' | 'fixed' | 'schedule';
+
+// Per-subscription retry settings; null means the relay defaults
+export interface RetryPolicy {
+  maxAttempts: number;
+  backoff: BackoffStrategy;
+  delayMs: number;
+  maxDelayMs?: number;
+  scheduleMs?: number[];
+  maxRetryWindowMs?: number;
+}
+
+// Open: deliveries are held after repeated failures; half-open: one held delivery is probing the endpoint
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerInfo {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string;
+  nextProbeAt?: string;
+  heldDeliveries?: number;
+}
+
+// mTLS client certificate details; the certificate and key themselves are write-only
+export interface ClientCertificateInfo {
+  subject: string;
+  expiresAt: string;
+  expiringSoon: boolean;
+  hasCaBundle: boolean;
+}
+
+export interface ClientCertificateInput {
+  certificate: string;
+  privateKey: string;
+  caBundle?: string;
+}
+
+export interface OutboundAuthInput extends OutboundAuthParams {
+  type: OutboundAuthType;
+  token?: string;
+  password?: string;
+  clientSecret?: string;
+}
+
 export interface Subscription {
   id: string;
-  eventType: string;
+  eventTypes: string[];
   targetUrl: string;
+  filter: SubscriptionFilter | null;
+  transform: unknown;
+  transformOnError: TransformErrorMode;
+  signatureScheme: SignatureScheme;
+  authType: OutboundAuthType;
+  authParams: OutboundAuthParams | null;
+  clientCertificate: ClientCertificateInfo | null;
+  verificationStatus: VerificationStatus;
+  verifiedAt?: string;
+  verificationError?: string;
+  retryPolicy: RetryPolicy | null;
+  timeoutMs: number | null;
+  rateLimitPerSecond: number | null;
+  maxInFlight: number | null;
+  orderedDelivery: boolean;
+  orderingKey: string | null;
+  batchMaxSize: number | null;
+  batchMaxWaitMs: number | null;
+  deactivatedAt?: string;
+  deactivationReason?: string;
+  circuitBreaker: CircuitBreakerInfo;
+  pausedAt?: string | null;
+  secretRotatedAt?: string;
+  previousSecretExpiresAt?: string;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
   deliveryCount: number;
 }
 
+export interface SubscriptionSecret {
+  id: string;
+  secretKey: string;
+  standardWebhooksSecret?: string;
+  signatureScheme?: SignatureScheme;
+  secretRotatedAt?: string;
+  previousSecretExpiresAt?: string;
+}
+
 export interface CreateSubscriptionData {
-  eventType: string;
+  eventTypes: string[];
   targetUrl: string;
+  filter?: SubscriptionFilter | null;
+  transform?: unknown;
+  transformOnError?: TransformErrorMode;
+  signatureScheme?: SignatureScheme;
+  auth?: OutboundAuthInput | null;
+  clientCertificate?: ClientCertificateInput | null;
+  retryPolicy?: RetryPolicy | null;
+  timeoutMs?: number | null;
+  rateLimitPerSecond?: number | null;
+  maxInFlight?: number | null;
+  orderedDelivery?: boolean;
+  orderingKey?: string | null;
+  batchMaxSize?: number | null;
+  batchMaxWaitMs?: number | null;
   description?: string;
 }
 
 // API functions
 export const apiService = {
+  // Sign in and store the session
+  async login(email: string, password: string): Promise<AdminUser> {
+    const response = await axios.post(`${API_ROOT_URL}/auth/login`, { email, password });
+    authStorage.setSession(response.data.token, response.data.user);
+    return response.data.user;
+  },
+
+  // Sign out and clear the session
+  async logout(): Promise<void> {
+    try {
+      await axios.post(`${API_ROOT_URL}/auth/logout`, null, {
+        headers: { Authorization: `Bearer ${authStorage.getToken()}` },
+      });
+    } finally {
+      authStorage.clear();
+    }
+  },
+
   // Get system statistics
   async getStats(): Promise<SystemStats> {
     const response = await api.get('/stats');
@@ -90,11 +383,54 @@ export const apiService = {
     return response.data;
   },
 
+  // Get a delivery with its attempt history
+  async getDeliveryLog(logId: string): Promise<DeliveryLog> {
+    const response = await api.get(`/delivery-logs/${logId}`);
+    return response.data.log;
+  },
+
   // Retry failed delivery
   async retryDelivery(logId: string): Promise<void> {
     await api.post(`/delivery-logs/${logId}/retry`);
   },
 
+  // Get dead letters
+  async getDeadLetters(params?: DeadLetterFilter & {
+    page?: number;
+    limit?: number;
+  }): Promise<{ deadLetters: DeadLetter[]; pagination: { page: number; limit: number; total: number; pages: number } }> {
+    const response = await api.get('/dead-letters', { params });
+    return response.data;
+  },
+
+  // Get a dead letter with payload and attempt history
+  async getDeadLetter(deadLetterId: string): Promise<DeadLetterDetail> {
+    const response = await api.get(`/dead-letters/${deadLetterId}`);
+    return response.data.deadLetter;
+  },
+
+  // Requeue one dead letter
+  async requeueDeadLetter(deadLetterId: string): Promise<void> {
+    await api.post(`/dead-letters/${deadLetterId}/requeue`);
+  },
+
+  // Requeue dead letters matching a filter, or all of them
+  async requeueDeadLetters(scope: DeadLetterFilter | { all: true }): Promise<{ requeued: number; skipped: number }> {
+    const response = await api.post('/dead-letters/requeue', scope);
+    return response.data;
+  },
+
+  // Purge one dead letter
+  async purgeDeadLetter(deadLetterId: string): Promise<void> {
+    await api.delete(`/dead-letters/${deadLetterId}`);
+  },
+
+  // Purge dead letters matching a filter, or all of them
+  async purgeDeadLetters(scope: DeadLetterFilter | { all: true }): Promise<{ purged: number }> {
+    const response = await api.post('/dead-letters/purge', scope);
+    return response.data;
+  },
+
   // Get subscriptions
   async getSubscriptions(params?: {
     page?: number;
@@ -113,11 +449,61 @@ export const apiService = {
   },
 
   // Update subscription
-  async updateSubscription(subscriptionId: string, data: Partial<Subscription>): Promise<Subscription> {
+  async updateSubscription(subscriptionId: string, data: Omit<Partial<Subscription>, 'clientCertificate'> & {
+    auth?: OutboundAuthInput | null;
+    clientCertificate?: ClientCertificateInput | null;
+  }): Promise<Subscription> {
     const response = await api.put(`/subscriptions/${subscriptionId}`, data);
     return response.data.subscription;
   },
 
+  // Test a subscription filter against a sample payload or a stored event
+  async previewFilter(filter: SubscriptionFilter, sample: { payload?: unknown; eventId?: string }): Promise<boolean> {
+    const response = await api.post('/subscriptions/filter-preview', { filter, ...sample });
+    return response.data.matches;
+  },
+
+  // Render a transform against a stored event
+  async previewTransform(transform: unknown, eventId: string): Promise<unknown> {
+    const response = await api.post('/subscriptions/transform-preview', { transform, eventId });
+    return response.data.body;
+  },
+
+  // Rotate a subscription's signing secret; the old one keeps signing for the grace period
+  async rotateSecret(subscriptionId: string, gracePeriodHours: number): Promise<SubscriptionSecret> {
+    const response = await api.post(`/subscriptions/${subscriptionId}/rotate-secret`, { gracePeriodHours });
+    return response.data.subscription;
+  },
+
+  // Send a new verification challenge to the subscription's endpoint
+  async resendVerification(subscriptionId: string): Promise<SubscriptionVerification> {
+    const response = await api.post(`/subscriptions/${subscriptionId}/verify`);
+    return response.data.subscription;
+  },
+
+  // Close a subscription's circuit breaker; returns how many held deliveries were released
+  async resetCircuitBreaker(subscriptionId: string): Promise<number> {
+    const response = await api.post(`/subscriptions/${subscriptionId}/circuit-breaker/reset`);
+    return response.data.releasedDeliveries;
+  },
+
+  // Pause a subscription; its deliveries are held until it's resumed
+  async pauseSubscription(subscriptionId: string): Promise<void> {
+    await api.post(`/subscriptions/${subscriptionId}/pause`);
+  },
+
+  // Resume a paused subscription; deliveries held since before releaseSince are dead-lettered instead of sent
+  async resumeSubscription(subscriptionId: string, releaseSince?: string): Promise<{ released: number; skipped: number }> {
+    const response = await api.post(`/subscriptions/${subscriptionId}/resume`, releaseSince ? { releaseSince } : {});
+    return { released: response.data.releasedDeliveries, skipped: response.data.skippedDeliveries };
+  },
+
+  // Reveal a subscription's current signing secret (audited)
+  async revealSecret(subscriptionId: string): Promise<SubscriptionSecret> {
+    const response = await api.post(`/subscriptions/${subscriptionId}/reveal-secret`);
+    return response.data.subscription;
+  },
+
   // Delete subscription
   async deleteSubscription(subscriptionId: string): Promise<void> {
     await api.delete(`/subscriptions/${subscriptionId}`);